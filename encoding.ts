@@ -0,0 +1,52 @@
+/**
+ * Encode bytes as lowercase hex.
+ *
+ * @param bytes Raw bytes.
+ * @returns Hex string, two characters per byte.
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Hash bytes or text with SHA-256.
+ *
+ * @param data Raw bytes, or text hashed as UTF-8.
+ * @returns Hex encoded digest.
+ */
+export async function sha256Hex(
+  data: Uint8Array<ArrayBuffer> | string,
+): Promise<string> {
+  const bytes = typeof data === "string"
+    ? new TextEncoder().encode(data)
+    : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Encode bytes as base64 without overflowing the call stack.
+ *
+ * @param data Raw bytes.
+ * @returns Base64 string.
+ */
+export function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < data.length; i += chunkSize) {
+    const chunk = data.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64 string to bytes.
+ *
+ * @param base64 Base64 string.
+ * @returns Raw bytes.
+ */
+export function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,160 @@
+import { sha256Hex } from "../encoding.ts";
+import { ArtResult } from "./art.ts";
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_MB = 50;
+const ENTRY_EXTENSION = ".json";
+
+export interface ArtCacheConfig {
+  dir: string;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+interface CacheFile {
+  path: string;
+  size: number;
+  usedAt: number;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function entryPath(config: ArtCacheConfig, key: string): string {
+  return `${config.dir}/${key}${ENTRY_EXTENSION}`;
+}
+
+/**
+ * Read the art cache settings from the environment.
+ *
+ * `ART_CACHE_DIR` defaults to `$XDG_CACHE_HOME/tauon-now-playing/art` (or
+ * `~/.cache/...`); set it to `off` to disable the cache.
+ *
+ * @returns Cache settings, or null when disabled or no directory is known.
+ */
+export function resolveArtCacheConfig(): ArtCacheConfig | null {
+  const configured = Deno.env.get("ART_CACHE_DIR");
+  if (configured === "off") return null;
+  const cacheHome = Deno.env.get("XDG_CACHE_HOME") ||
+    (Deno.env.get("HOME") ? `${Deno.env.get("HOME")}/.cache` : null);
+  const dir = configured ||
+    (cacheHome ? `${cacheHome}/tauon-now-playing/art` : null);
+  if (!dir) return null;
+  return {
+    dir,
+    maxEntries: parsePositiveInt(
+      Deno.env.get("ART_CACHE_MAX_ENTRIES"),
+      DEFAULT_MAX_ENTRIES,
+    ),
+    maxBytes:
+      parsePositiveInt(Deno.env.get("ART_CACHE_MAX_MB"), DEFAULT_MAX_MB) *
+      1024 * 1024,
+  };
+}
+
+/**
+ * Build the cache key for a piece of source art.
+ *
+ * @param albumId Tauon album id.
+ * @param source Original image bytes from Tauon.
+ * @param encoding Tag describing the output encoding.
+ * @returns Key combining the album id, a SHA-256 prefix of the image and the
+ *   encoding.
+ */
+export async function artCacheKey(
+  albumId: number,
+  source: Uint8Array<ArrayBuffer>,
+  encoding: string,
+): Promise<string> {
+  const hex = await sha256Hex(source);
+  return `${albumId}-${hex.slice(0, 32)}-${encoding}`;
+}
+
+/**
+ * Load resized art and its palette from the cache.
+ *
+ * Hits refresh the entry's modification time, which eviction uses as the
+ * last-used time.
+ *
+ * @param config Cache settings.
+ * @param key Key from artCacheKey.
+ * @returns Cached art, or null on a miss or unreadable entry.
+ */
+export async function readCachedArt(
+  config: ArtCacheConfig,
+  key: string,
+): Promise<ArtResult | null> {
+  const path = entryPath(config, key);
+  try {
+    const entry = JSON.parse(await Deno.readTextFile(path)) as ArtResult;
+    if (
+      typeof entry?.base64 !== "string" || typeof entry.mimeType !== "string" ||
+      !entry.colors
+    ) {
+      return null;
+    }
+    const now = new Date();
+    await Deno.utime(path, now, now);
+    return entry;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      console.warn(`Failed to read cached art: ${path}`, error);
+    }
+    return null;
+  }
+}
+
+async function listCacheFiles(config: ArtCacheConfig): Promise<CacheFile[]> {
+  const files: CacheFile[] = [];
+  for await (const entry of Deno.readDir(config.dir)) {
+    if (!entry.isFile || !entry.name.endsWith(ENTRY_EXTENSION)) continue;
+    const path = `${config.dir}/${entry.name}`;
+    const info = await Deno.stat(path);
+    files.push({
+      path,
+      size: info.size,
+      usedAt: info.mtime?.getTime() ?? 0,
+    });
+  }
+  return files;
+}
+
+async function evictLeastRecentlyUsed(config: ArtCacheConfig): Promise<void> {
+  const files = await listCacheFiles(config);
+  files.sort((a, b) => a.usedAt - b.usedAt);
+  let count = files.length;
+  let bytes = files.reduce((total, file) => total + file.size, 0);
+  for (const file of files) {
+    if (count <= config.maxEntries && bytes <= config.maxBytes) break;
+    await Deno.remove(file.path).catch(() => {});
+    count--;
+    bytes -= file.size;
+  }
+}
+
+/**
+ * Store resized art and its palette, then trim the cache to its limits.
+ *
+ * @param config Cache settings.
+ * @param key Key from artCacheKey.
+ * @param art Resized art and palette.
+ */
+export async function writeCachedArt(
+  config: ArtCacheConfig,
+  key: string,
+  art: ArtResult,
+): Promise<void> {
+  const path = entryPath(config, key);
+  try {
+    await Deno.mkdir(config.dir, { recursive: true });
+    // Write then rename so a crash never leaves a truncated entry behind.
+    const tempPath = `${path}.tmp`;
+    await Deno.writeTextFile(tempPath, JSON.stringify(art));
+    await Deno.rename(tempPath, path);
+    await evictLeastRecentlyUsed(config);
+  } catch (error) {
+    console.warn(`Failed to write cached art: ${path}`, error);
+  }
+}
@@ -1,13 +1,182 @@
-import { ColorPalette } from "../types.ts";
+import { ColorPalette, MAX_ART_BYTES } from "../types.ts";
+import { encodeBase64 } from "../encoding.ts";
 import sharp from "sharp";
+import {
+  ArtCacheConfig,
+  artCacheKey,
+  readCachedArt,
+  writeCachedArt,
+} from "./art-cache.ts";
+import { assignPaletteRoles, quantizePalette, rgbToHsl } from "./palette.ts";
 
-const ART_TARGET_SIZE = 400;
+export const ART_FORMATS = ["jpeg", "webp", "avif", "png"] as const;
+export type ArtFormat = typeof ART_FORMATS[number];
+
+const DEFAULT_ART_SIZE = 400;
+const DEFAULT_ART_QUALITY = 85;
+const ART_SIZE_BOUNDS = { min: 64, max: 1200 };
+// Art over MAX_ART_BYTES is re-encoded at lower quality, down to this floor,
+// then at smaller sizes until it fits.
+const ART_MIN_QUALITY = 40;
+const ART_QUALITY_STEP = 15;
+const ART_SIZE_STEP = 0.75;
+// Edge length of the thumbnail sampled for palette extraction.
+const PALETTE_SAMPLE_SIZE = 64;
+const ART_MIME_TYPES: Record<ArtFormat, string> = {
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+  png: "image/png",
+};
+
+export interface ArtEncoding {
+  format: ArtFormat;
+  size: number; // Longest edge in pixels
+  quality: number; // 1-100, ignored for PNG
+}
 
 export interface ArtResult {
   base64: string;
+  mimeType: string;
   colors: ColorPalette;
 }
 
+function isArtFormat(value: string): value is ArtFormat {
+  return (ART_FORMATS as readonly string[]).includes(value);
+}
+
+function parseBoundedInt(
+  value: string | undefined,
+  min: number,
+  max: number,
+  fallback: number,
+): number {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed)
+    ? Math.min(max, Math.max(min, parsed))
+    : fallback;
+}
+
+/**
+ * Read the art encoding settings from the environment.
+ *
+ * `ART_FORMAT` is one of jpeg (default), webp, avif or png; `ART_SIZE` is the
+ * longest edge in pixels and `ART_QUALITY` the lossy quality from 1 to 100.
+ *
+ * @returns Encoding settings, with defaults for missing or invalid values.
+ */
+export function resolveArtEncoding(): ArtEncoding {
+  const format = (Deno.env.get("ART_FORMAT") || "jpeg").toLowerCase();
+  if (!isArtFormat(format)) {
+    console.warn(`Unknown ART_FORMAT "${format}", using jpeg`);
+  }
+  return {
+    format: isArtFormat(format) ? format : "jpeg",
+    size: parseBoundedInt(
+      Deno.env.get("ART_SIZE"),
+      ART_SIZE_BOUNDS.min,
+      ART_SIZE_BOUNDS.max,
+      DEFAULT_ART_SIZE,
+    ),
+    quality: parseBoundedInt(
+      Deno.env.get("ART_QUALITY"),
+      1,
+      100,
+      DEFAULT_ART_QUALITY,
+    ),
+  };
+}
+
+/**
+ * Describe an encoding compactly, for cache keys and logs.
+ *
+ * @param encoding Encoding settings.
+ * @returns Tag such as "webp-300-q80".
+ */
+export function describeArtEncoding(encoding: ArtEncoding): string {
+  return `${encoding.format}-${encoding.size}-q${encoding.quality}`;
+}
+
+function encodeArt(image: sharp.Sharp, encoding: ArtEncoding): void {
+  const { format, quality } = encoding;
+  switch (format) {
+    case "jpeg":
+      image.jpeg({ quality, progressive: true });
+      break;
+    case "webp":
+      image.webp({ quality, alphaQuality: 100 });
+      break;
+    case "avif":
+      image.avif({ quality });
+      break;
+    case "png":
+      image.png({ compressionLevel: 9 });
+      break;
+  }
+}
+
+// Next, smaller encoding to try when art is over MAX_ART_BYTES.
+function shrinkArtEncoding(encoding: ArtEncoding): ArtEncoding | null {
+  if (encoding.format !== "png" && encoding.quality > ART_MIN_QUALITY) {
+    return {
+      ...encoding,
+      quality: Math.max(ART_MIN_QUALITY, encoding.quality - ART_QUALITY_STEP),
+    };
+  }
+  if (encoding.size > ART_SIZE_BOUNDS.min) {
+    return {
+      ...encoding,
+      size: Math.max(
+        ART_SIZE_BOUNDS.min,
+        Math.round(encoding.size * ART_SIZE_STEP),
+      ),
+    };
+  }
+  return null;
+}
+
+function fitArtSize(
+  image: sharp.Sharp,
+  metadata: sharp.Metadata,
+  size: number,
+): sharp.Sharp {
+  const shouldDownscale = Boolean(
+    metadata.width && metadata.height &&
+      (metadata.width > size || metadata.height > size),
+  );
+  return shouldDownscale
+    ? image.resize(size, size, { fit: "cover", position: "center" })
+    : image;
+}
+
+async function encodeWithinLimit(
+  baseSharp: sharp.Sharp,
+  metadata: sharp.Metadata,
+  encoding: ArtEncoding,
+): Promise<Uint8Array | null> {
+  for (
+    let current: ArtEncoding | null = encoding;
+    current;
+    current = shrinkArtEncoding(current)
+  ) {
+    const image = fitArtSize(baseSharp.clone(), metadata, current.size);
+    // PNG, WebP and AVIF keep the alpha channel; JPEG flattens it.
+    encodeArt(image, current);
+    const buffer = new Uint8Array(await image.toBuffer());
+    if (buffer.byteLength <= MAX_ART_BYTES) {
+      if (current !== encoding) {
+        console.log(
+          `Album art re-encoded as ${
+            describeArtEncoding(current)
+          } to fit ${MAX_ART_BYTES} bytes`,
+        );
+      }
+      return buffer;
+    }
+  }
+  return null;
+}
+
 function extractDominantColor(stats: sharp.Stats): string {
   const r = Math.round(stats.channels[0].mean);
   const g = Math.round(stats.channels[1].mean);
@@ -31,41 +200,6 @@ function calculateAccentColor(hexColor: string): string {
   }${accentB.toString(16).padStart(2, "0")}`;
 }
 
-function rgbToHsl(r: number, g: number, b: number): {
-  h: number;
-  s: number;
-  l: number;
-} {
-  const rNorm = r / 255;
-  const gNorm = g / 255;
-  const bNorm = b / 255;
-  const max = Math.max(rNorm, gNorm, bNorm);
-  const min = Math.min(rNorm, gNorm, bNorm);
-  const delta = max - min;
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-
-  if (delta !== 0) {
-    s = delta / (1 - Math.abs(2 * l - 1));
-    switch (max) {
-      case rNorm:
-        h = ((gNorm - bNorm) / delta) % 6;
-        break;
-      case gNorm:
-        h = (bNorm - rNorm) / delta + 2;
-        break;
-      case bNorm:
-        h = (rNorm - gNorm) / delta + 4;
-        break;
-    }
-    h *= 60;
-    if (h < 0) h += 360;
-  }
-
-  return { h, s, l };
-}
-
 function extractHighlightFromRaw(
   raw: Uint8Array,
   width: number,
@@ -123,74 +257,115 @@ function blendWithWhite(hexColor: string, ratio: number): string {
   }${blend(b).toString(16).padStart(2, "0")}`;
 }
 
+async function fetchArtSource(
+  tauonUrl: string,
+  trackId: number,
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const response = await fetch(
+    `${tauonUrl}/api1/pic/medium/${trackId}`,
+    { signal: AbortSignal.timeout(10000) },
+  );
+  if (!response.ok) {
+    console.warn(`Album art fetch failed: ${response.status}`);
+    return null;
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+async function resizeArt(
+  imageBuffer: Uint8Array,
+  encoding: ArtEncoding,
+): Promise<ArtResult | null> {
+  const baseSharp = sharp(imageBuffer);
+  const metadata = await baseSharp.metadata();
+  const sharpInstance = fitArtSize(baseSharp.clone(), metadata, encoding.size);
+
+  const [resizedBuffer, stats, tinyRaw] = await Promise.all([
+    encodeWithinLimit(baseSharp, metadata, encoding),
+    sharpInstance.clone().stats(),
+    sharpInstance.clone().resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, {
+      fit: "cover",
+      withoutEnlargement: true,
+    }).removeAlpha().raw().toBuffer({
+      resolveWithObject: true,
+    }),
+  ]);
+
+  // Quantize instead of averaging channels so split-color covers keep
+  // their real colors rather than blending into mud.
+  const swatches = quantizePalette(tinyRaw.data, tinyRaw.info.channels);
+  const roles = assignPaletteRoles(swatches);
+  const dominant = swatches[0]?.color ?? extractDominantColor(stats);
+  const accent = roles.vibrant ?? calculateAccentColor(dominant);
+  const highlightCandidate = extractHighlightFromRaw(
+    tinyRaw.data,
+    tinyRaw.info.width,
+    tinyRaw.info.height,
+    dominant,
+  );
+  const fallbackHighlight = extractHighlightColor(stats);
+  const highlight = blendWithWhite(
+    highlightCandidate || fallbackHighlight,
+    0.10,
+  );
+
+  if (!resizedBuffer) {
+    console.warn(`Album art does not fit in ${MAX_ART_BYTES} bytes, skipping`);
+    return null;
+  }
+
+  return {
+    base64: encodeBase64(resizedBuffer),
+    mimeType: ART_MIME_TYPES[encoding.format],
+    colors: {
+      dominant,
+      accent,
+      highlight,
+      ...(roles.vibrant ? { vibrant: roles.vibrant } : {}),
+      ...(roles.muted ? { muted: roles.muted } : {}),
+      ...(roles.light ? { light: roles.light } : {}),
+      ...(roles.dark ? { dark: roles.dark } : {}),
+      swatches,
+    },
+  };
+}
+
 /**
  * Fetch, resize, and extract a color palette for album art.
  *
+ * Results are cached on disk by album id, source image hash and encoding, so
+ * only new or changed art goes through sharp.
+ *
  * @param tauonUrl Base URL for the Tauon API.
  * @param trackId Track id used for art lookup.
+ * @param albumId Album id used as part of the cache key.
+ * @param encoding Output format, size and quality.
+ * @param cache Disk cache settings, or null to always resize.
  * @returns Encoded art and palette, or null if unavailable.
  */
 export async function fetchAndResizeArt(
   tauonUrl: string,
   trackId: number,
+  albumId: number,
+  encoding: ArtEncoding,
+  cache: ArtCacheConfig | null,
 ): Promise<ArtResult | null> {
   try {
-    const response = await fetch(
-      `${tauonUrl}/api1/pic/medium/${trackId}`,
-      { signal: AbortSignal.timeout(10000) },
-    );
-    if (!response.ok) {
-      console.warn(`Album art fetch failed: ${response.status}`);
-      return null;
-    }
-
-    const imageBuffer = new Uint8Array(await response.arrayBuffer());
-
-    const baseSharp = sharp(imageBuffer);
-    const metadata = await baseSharp.metadata();
-    const shouldDownscale = Boolean(
-      metadata.width && metadata.height &&
-        (metadata.width > ART_TARGET_SIZE || metadata.height > ART_TARGET_SIZE),
-    );
-    const sharpInstance = shouldDownscale
-      ? baseSharp.resize(ART_TARGET_SIZE, ART_TARGET_SIZE, {
-        fit: 'cover',
-        position: 'center',
-      })
-      : baseSharp.clone();
-    sharpInstance.jpeg({ quality: 85, progressive: true });
-
-    const [resizedBuffer, stats, tinyRaw] = await Promise.all([
-      sharpInstance.toBuffer(),
-      sharpInstance.clone().stats(),
-      sharpInstance.clone().resize(24, 24, {
-        fit: 'cover',
-        withoutEnlargement: true,
-      }).raw().toBuffer({
-        resolveWithObject: true,
-      }),
-    ]);
-
-    const dominant = extractDominantColor(stats);
-    const accent = calculateAccentColor(dominant);
-    const highlightCandidate = extractHighlightFromRaw(
-      tinyRaw.data,
-      tinyRaw.info.width,
-      tinyRaw.info.height,
-      dominant,
-    );
-    const fallbackHighlight = extractHighlightColor(stats);
-    const highlight = blendWithWhite(
-      highlightCandidate || fallbackHighlight,
-      0.10,
-    );
+    const source = await fetchArtSource(tauonUrl, trackId);
+    if (!source) return null;
 
-    const base64 = btoa(String.fromCharCode(...new Uint8Array(resizedBuffer)));
+    const key = cache
+      ? await artCacheKey(albumId, source, describeArtEncoding(encoding))
+      : null;
+    if (cache && key) {
+      const cached = await readCachedArt(cache, key);
+      if (cached) return cached;
+    }
 
-    return {
-      base64,
-      colors: { dominant, accent, highlight },
-    };
+    const art = await resizeArt(source, encoding);
+    if (!art) return null;
+    if (cache && key) await writeCachedArt(cache, key, art);
+    return art;
   } catch (error) {
     console.warn("Failed to fetch/resize album art:", error);
     return null;
@@ -1,27 +1,97 @@
+import { decodeBase64, sha256Hex } from "../encoding.ts";
 import { NowPlayingData } from "../types.ts";
 
+const REQUEST_TIMEOUT_MS = 10000;
+
+function apiBase(deployUrl: string, user: string | null): string {
+  return user
+    ? `${deployUrl}/api/u/${encodeURIComponent(user)}`
+    : `${deployUrl}/api`;
+}
+
+/**
+ * Make sure the server has a piece of art, uploading it only when missing.
+ *
+ * @param base API base URL for the user.
+ * @param apiKey API key for authorization.
+ * @param artBase64 Base64 encoded image.
+ * @returns SHA-256 of the image, or null when the server cannot store it.
+ */
+async function ensureArtUploaded(
+  base: string,
+  apiKey: string,
+  artBase64: string,
+): Promise<string | null> {
+  const data = decodeBase64(artBase64);
+  const hash = await sha256Hex(data);
+  const endpoint = `${base}/art/${hash}`;
+  const headers = { Authorization: `Bearer ${apiKey}` };
+  try {
+    const head = await fetch(endpoint, {
+      method: "HEAD",
+      headers,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (head.ok) return hash;
+    if (head.status !== 404) {
+      console.warn(`Deploy API art check error: ${head.status}`);
+      return null;
+    }
+
+    const upload = await fetch(endpoint, {
+      method: "PUT",
+      headers: { ...headers, "Content-Type": "application/octet-stream" },
+      body: data,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    await upload.body?.cancel();
+    if (!upload.ok) {
+      // Servers without art storage answer 404; oversized art gets 413.
+      console.warn(`Deploy API art upload error: ${upload.status}`);
+      return null;
+    }
+    return hash;
+  } catch (error) {
+    console.warn("Failed to upload art to Deploy API:", error);
+    return null;
+  }
+}
+
 /**
  * Send the latest now playing data to the Deploy API.
  *
+ * Art is uploaded once by hash and referenced from the payload. It is never
+ * sent inline: when the upload fails the update goes out without art.
+ *
  * @param deployUrl Deploy endpoint base URL.
- * @param apiKey Shared API key for authorization.
+ * @param apiKey API key for authorization.
+ * @param user User slug, or null for the default user.
  * @param data Payload to store.
  * @returns True when the request succeeds.
  */
 export async function sendToDeploy(
   deployUrl: string,
   apiKey: string,
+  user: string | null,
   data: NowPlayingData,
 ): Promise<boolean> {
+  const base = apiBase(deployUrl, user);
+  let payload = data;
+  if (data.artBase64) {
+    const artHash = await ensureArtUploaded(base, apiKey, data.artBase64);
+    payload = { ...data, artBase64: null, artHash };
+    if (!artHash) payload.artMimeType = null;
+  }
+
   try {
-    const response = await fetch(`${deployUrl}/api/now-playing`, {
+    const response = await fetch(`${base}/now-playing`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify(data),
-      signal: AbortSignal.timeout(10000),
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     });
 
     if (!response.ok) {
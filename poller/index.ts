@@ -1,5 +1,11 @@
 import { ColorPalette, NowPlayingData } from "../types.ts";
-import { fetchAndResizeArt } from "./art.ts";
+import {
+  ArtResult,
+  describeArtEncoding,
+  fetchAndResizeArt,
+  resolveArtEncoding,
+} from "./art.ts";
+import { resolveArtCacheConfig } from "./art-cache.ts";
 import { sendToDeploy } from "./deploy.ts";
 import { shouldUpdate } from "./state.ts";
 import { fetchTauonStatus } from "./tauon.ts";
@@ -8,15 +14,18 @@ import { fetchTauonStatus } from "./tauon.ts";
 const TAUON_URL = Deno.env.get("TAUON_URL") || "http://localhost:7814";
 const DEPLOY_URL = Deno.env.get("DEPLOY_URL");
 const API_KEY = Deno.env.get("API_KEY");
+const DEPLOY_USER = Deno.env.get("DEPLOY_USER") || null;
 const POLL_INTERVAL_MS = parseInt(Deno.env.get("POLL_INTERVAL_MS") || "10000");
+const ART_ENCODING = resolveArtEncoding();
+const ART_CACHE = resolveArtCacheConfig();
 
 // State to track last sent/seen data to avoid unnecessary updates
 let lastSentTrackId: number | null = null;
 let lastSentStatus: string | null = null;
 let lastSeenStatus: string | null = null;
-let lastAlbumName: string | null = null;
-let lastArtBase64: string | null = null;
-let lastColors: ColorPalette | null = null;
+// Art of the last album, reused without downloading it again
+let lastAlbumId: number | null = null;
+let lastArt: ArtResult | null = null;
 
 if (!DEPLOY_URL) {
   console.error("DEPLOY_URL environment variable is required");
@@ -50,26 +59,28 @@ async function poll(): Promise<void> {
   }
 
   let artBase64: string | null = null;
+  let artMimeType: string | null = null;
   let colors: ColorPalette | null = null;
   const albumName = (status.track?.album || status.album || "").trim();
   const isPlayableStatus = status.status === "playing" ||
     status.status === "paused";
-  const hasCachedArt = albumName.length > 0 && albumName === lastAlbumName &&
-    lastArtBase64 && lastColors;
 
   if (isPlayableStatus && status.id > 0 && albumName.length > 0) {
-    if (!hasCachedArt) {
-      const artResult = await fetchAndResizeArt(TAUON_URL, status.id);
-      if (artResult) {
-        artBase64 = artResult.base64;
-        colors = artResult.colors;
-        lastAlbumName = albumName;
-        lastArtBase64 = artBase64;
-        lastColors = colors;
-      }
-    } else {
-      artBase64 = lastArtBase64;
-      colors = lastColors;
+    const artResult = status.album_id === lastAlbumId && lastArt
+      ? lastArt
+      : await fetchAndResizeArt(
+        TAUON_URL,
+        status.id,
+        status.album_id,
+        ART_ENCODING,
+        ART_CACHE,
+      );
+    if (artResult) {
+      lastAlbumId = status.album_id;
+      lastArt = artResult;
+      artBase64 = artResult.base64;
+      artMimeType = artResult.mimeType;
+      colors = artResult.colors;
     }
   }
 
@@ -84,11 +95,17 @@ async function poll(): Promise<void> {
     progress: status.progress,
     status: status.status,
     artBase64,
+    artMimeType,
     colors,
     updatedAt: Date.now(),
   };
 
-  const success = await sendToDeploy(deployUrl, apiKey, nowPlayingData);
+  const success = await sendToDeploy(
+    deployUrl,
+    apiKey,
+    DEPLOY_USER,
+    nowPlayingData,
+  );
 
   if (success) {
     lastSentTrackId = status.id;
@@ -102,7 +119,10 @@ export async function main(): Promise<void> {
   console.log("Tauon Now Playing Poller");
   console.log(`  Tauon URL: ${TAUON_URL}`);
   console.log(`  Deploy URL: ${DEPLOY_URL}`);
+  console.log(`  Deploy user: ${DEPLOY_USER || "default"}`);
   console.log(`  Poll interval: ${POLL_INTERVAL_MS}ms`);
+  console.log(`  Art encoding: ${describeArtEncoding(ART_ENCODING)}`);
+  console.log(`  Art cache: ${ART_CACHE?.dir ?? "disabled"}`);
 
   await poll();
 
@@ -0,0 +1,297 @@
+import { PaletteSwatch } from "../types.ts";
+
+const MAX_SWATCHES = 8;
+const REFINE_ITERATIONS = 4;
+// Swatches closer than this (Euclidean RGB distance) are merged into one.
+const MERGE_DISTANCE = 24;
+// Swatches covering less of the art than this never get a role.
+const MIN_ROLE_POPULATION = 0.02;
+
+type Rgb = [number, number, number];
+
+interface ColorBox {
+  pixels: Rgb[];
+  channel: number;
+  range: number;
+}
+
+export interface PaletteRoles {
+  vibrant: string | null;
+  muted: string | null;
+  light: string | null;
+  dark: string | null;
+}
+
+interface RoleTarget {
+  role: keyof PaletteRoles;
+  saturation: [number, number, number]; // min, target, max
+  lightness: [number, number, number];
+}
+
+// Saturation and lightness windows for each role, in the spirit of Android's
+// Palette targets.
+const ROLE_TARGETS: RoleTarget[] = [
+  { role: "vibrant", saturation: [0.35, 1, 1], lightness: [0.3, 0.5, 0.7] },
+  { role: "muted", saturation: [0, 0.3, 0.4], lightness: [0.3, 0.5, 0.7] },
+  { role: "light", saturation: [0, 0.5, 1], lightness: [0.55, 0.74, 1] },
+  { role: "dark", saturation: [0, 0.5, 1], lightness: [0, 0.26, 0.45] },
+];
+
+/**
+ * Convert an RGB color to HSL.
+ *
+ * @param r Red channel (0-255).
+ * @param g Green channel (0-255).
+ * @param b Blue channel (0-255).
+ * @returns Hue in degrees, saturation and lightness between 0 and 1.
+ */
+export function rgbToHsl(r: number, g: number, b: number): {
+  h: number;
+  s: number;
+  l: number;
+} {
+  const rNorm = r / 255;
+  const gNorm = g / 255;
+  const bNorm = b / 255;
+  const max = Math.max(rNorm, gNorm, bNorm);
+  const min = Math.min(rNorm, gNorm, bNorm);
+  const delta = max - min;
+  let h = 0;
+  let s = 0;
+  const l = (max + min) / 2;
+
+  if (delta !== 0) {
+    s = delta / (1 - Math.abs(2 * l - 1));
+    switch (max) {
+      case rNorm:
+        h = ((gNorm - bNorm) / delta) % 6;
+        break;
+      case gNorm:
+        h = (bNorm - rNorm) / delta + 2;
+        break;
+      case bNorm:
+        h = (rNorm - gNorm) / delta + 4;
+        break;
+    }
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+
+  return { h, s, l };
+}
+
+function toHex([r, g, b]: Rgb): string {
+  const hex = (value: number): string =>
+    Math.round(value).toString(16).padStart(2, "0");
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
+
+function fromHex(color: string): Rgb {
+  return [
+    parseInt(color.slice(1, 3), 16),
+    parseInt(color.slice(3, 5), 16),
+    parseInt(color.slice(5, 7), 16),
+  ];
+}
+
+function createBox(pixels: Rgb[]): ColorBox {
+  let channel = 0;
+  let range = 0;
+  for (let c = 0; c < 3; c++) {
+    let min = 255;
+    let max = 0;
+    for (const pixel of pixels) {
+      min = Math.min(min, pixel[c]);
+      max = Math.max(max, pixel[c]);
+    }
+    if (max - min > range) {
+      range = max - min;
+      channel = c;
+    }
+  }
+  return { pixels, channel, range };
+}
+
+function distanceSquared(a: Rgb, b: Rgb): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function averageColor(pixels: Rgb[]): Rgb {
+  const sum: Rgb = [0, 0, 0];
+  for (const pixel of pixels) {
+    sum[0] += pixel[0];
+    sum[1] += pixel[1];
+    sum[2] += pixel[2];
+  }
+  return [
+    sum[0] / pixels.length,
+    sum[1] / pixels.length,
+    sum[2] / pixels.length,
+  ];
+}
+
+/**
+ * Quantize raw pixels into a ranked palette with median cut.
+ *
+ * The box with the widest channel range, weighted by its pixel count, is
+ * split at the median of that channel until the swatch limit is reached or no
+ * box can be split further. The box averages are then refined with a few
+ * k-means passes and near-identical colors are merged, so populations are
+ * real shares of the pixels.
+ *
+ * @param raw Interleaved pixel data.
+ * @param channels Bytes per pixel; channels past RGB are ignored.
+ * @param maxSwatches Maximum number of swatches to return.
+ * @returns Swatches sorted by population, most common first.
+ */
+export function quantizePalette(
+  raw: Uint8Array,
+  channels: number,
+  maxSwatches: number = MAX_SWATCHES,
+): PaletteSwatch[] {
+  const pixels: Rgb[] = [];
+  for (let i = 0; i + 2 < raw.length; i += channels) {
+    pixels.push([raw[i], raw[i + 1], raw[i + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes = [createBox(pixels)];
+  while (boxes.length < maxSwatches) {
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.range * Math.sqrt(box.pixels.length);
+      if (box.pixels.length > 1 && score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const { pixels: boxPixels, channel } = boxes[target];
+    boxPixels.sort((a, b) => a[channel] - b[channel]);
+    const median = Math.floor(boxPixels.length / 2);
+    boxes.splice(
+      target,
+      1,
+      createBox(boxPixels.slice(0, median)),
+      createBox(boxPixels.slice(median)),
+    );
+  }
+
+  const clusters = mergeClusters(
+    refineClusters(pixels, boxes.map((box) => averageColor(box.pixels))),
+  );
+  return clusters
+    .map((cluster) => ({
+      color: toHex(cluster.color),
+      population: Math.round((cluster.count / pixels.length) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.population - a.population);
+}
+
+interface Cluster {
+  color: Rgb;
+  count: number;
+}
+
+// Median cut splits at the median pixel, so box sizes are halves of halves
+// and a box straddling two colors averages to neither. A few k-means passes
+// reassign pixels to their nearest color to fix both.
+function refineClusters(pixels: Rgb[], seeds: Rgb[]): Cluster[] {
+  let clusters: Cluster[] = seeds.map((color) => ({ color, count: 0 }));
+  for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+    const sums = clusters.map(() => [0, 0, 0, 0]);
+    for (const pixel of pixels) {
+      let nearest = 0;
+      let nearestDistance = Number.POSITIVE_INFINITY;
+      clusters.forEach((cluster, index) => {
+        const distance = distanceSquared(pixel, cluster.color);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = index;
+        }
+      });
+      const sum = sums[nearest];
+      sum[0] += pixel[0];
+      sum[1] += pixel[1];
+      sum[2] += pixel[2];
+      sum[3]++;
+    }
+    clusters = sums
+      .filter((sum) => sum[3] > 0)
+      .map((sum) => ({
+        color: [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]] as Rgb,
+        count: sum[3],
+      }));
+  }
+  return clusters;
+}
+
+function mergeClusters(clusters: Cluster[]): Cluster[] {
+  const merged: Cluster[] = [];
+  const sorted = [...clusters].sort((a, b) => b.count - a.count);
+  for (const cluster of sorted) {
+    const target = merged.find((candidate) =>
+      distanceSquared(candidate.color, cluster.color) < MERGE_DISTANCE ** 2
+    );
+    if (!target) {
+      merged.push({ ...cluster });
+      continue;
+    }
+    const count = target.count + cluster.count;
+    target.color = target.color.map((channel, index) =>
+      (channel * target.count + cluster.color[index] * cluster.count) / count
+    ) as Rgb;
+    target.count = count;
+  }
+  return merged;
+}
+
+function scoreSwatch(swatch: PaletteSwatch, target: RoleTarget): number {
+  const { s, l } = rgbToHsl(...fromHex(swatch.color));
+  const [minS, targetS, maxS] = target.saturation;
+  const [minL, targetL, maxL] = target.lightness;
+  if (s < minS || s > maxS || l < minL || l > maxL) return -1;
+  return (1 - Math.abs(s - targetS)) * 0.24 +
+    (1 - Math.abs(l - targetL)) * 0.52 +
+    swatch.population * 0.24;
+}
+
+/**
+ * Pick vibrant, muted, light and dark swatches from a palette.
+ *
+ * Each role takes the best scoring swatch inside its saturation and
+ * lightness window that no earlier role has claimed. Swatches covering less
+ * than MIN_ROLE_POPULATION of the art are ignored.
+ *
+ * @param swatches Ranked palette from quantizePalette.
+ * @returns Hex color per role, or null when no swatch fits.
+ */
+export function assignPaletteRoles(swatches: PaletteSwatch[]): PaletteRoles {
+  const roles: PaletteRoles = {
+    vibrant: null,
+    muted: null,
+    light: null,
+    dark: null,
+  };
+  const used = new Set<string>();
+  for (const target of ROLE_TARGETS) {
+    let best: PaletteSwatch | null = null;
+    let bestScore = -1;
+    for (const swatch of swatches) {
+      if (used.has(swatch.color)) continue;
+      if (swatch.population < MIN_ROLE_POPULATION) continue;
+      const score = scoreSwatch(swatch, target);
+      if (score > bestScore) {
+        bestScore = score;
+        best = swatch;
+      }
+    }
+    if (best) {
+      roles[target.role] = best.color;
+      used.add(best.color);
+    }
+  }
+  return roles;
+}
@@ -1,97 +1,344 @@
-import { defaultSvgConfig, NowPlayingData, SvgConfig } from "./types.ts";
-import { generateNowPlayingSvg } from "./svg.ts";
+import {
+  defaultSvgConfig,
+  FontMetrics,
+  MAX_ART_BYTES,
+  NowPlayingData,
+  SvgConfig,
+} from "./types.ts";
+import {
+  extractSvgText,
+  freezeAnimations,
+  generateNowPlayingSvg,
+  generateTopArtistsSvg,
+  isVisualizerStyle,
+  MIN_CARD_HEIGHT,
+  resolveStaticScheme,
+} from "./svg.ts";
+import { encodeBase64 } from "./encoding.ts";
+import {
+  extractInlineArt,
+  getArt,
+  hasArt,
+  resolveArt,
+  storeArt,
+  touchArt,
+} from "./server/art.ts";
+import { parseFontMetrics } from "./server/font-metrics.ts";
+import { subsetFontData } from "./server/font-subset.ts";
+import { appendHistory, listHistory } from "./server/history.ts";
+import {
+  estimateRecordBytes,
+  MAX_PAYLOAD_BYTES,
+  MAX_RECORD_BYTES,
+  validateNowPlayingData,
+} from "./server/validate.ts";
+import {
+  computeEtag,
+  etagMatches,
+  getCachedRender,
+  invalidateRenderCache,
+  renderCacheKey,
+  renderExpiresAt,
+  setCachedRender,
+} from "./server/render-cache.ts";
+import {
+  RASTER_MIME_TYPES,
+  RasterFormat,
+  rasterizeSvg,
+  toRasterArt,
+} from "./server/raster.ts";
+import {
+  addStatsMutations,
+  getStats,
+  pruneStats,
+  STATS_RANGES,
+  statsExpiresAt,
+  StatsRange,
+} from "./server/stats.ts";
+import { createNowPlayingStream } from "./server/stream.ts";
+import {
+  deleteTheme,
+  getStoredTheme,
+  listThemes,
+  loadTheme,
+  resolveTheme,
+  saveTheme,
+  THEME_NAME_PATTERN,
+  ThemeFile,
+} from "./server/themes.ts";
+import {
+  createUser,
+  DEFAULT_USER,
+  getUser,
+  listUsers,
+  parseUserSlug,
+  revokeUser,
+  secretsMatch,
+  userKey,
+  verifyUserKey,
+} from "./server/users.ts";
 
 const API_KEY = Deno.env.get("API_KEY");
 if (!API_KEY) {
   console.error("API_KEY environment variable is required");
   Deno.exit(1);
 }
+// Admin routes stay disabled without a dedicated key, so the poller's key
+// can never manage users or themes.
+const ADMIN_API_KEY = Deno.env.get("ADMIN_API_KEY") || null;
 
-const KV_KEY = ["now-playing"];
-const THEME_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+const HISTORY_RETENTION_DAYS = parseInt(
+  Deno.env.get("HISTORY_RETENTION_DAYS") || "90",
+);
+
+const NOW_PLAYING_KEY = "now-playing";
+const HISTORY_KEY = "history";
+const STATS_KEY = "stats";
+const STORE_ATTEMPTS = 3;
+const STATS_DEFAULT_LIMIT = 10;
+const STATS_MAX_LIMIT = 50;
+const TOP_ARTISTS_DEFAULT_LIMIT = 5;
+const TOP_ARTISTS_MAX_LIMIT = 10;
+const STATS_RANGE_LABELS: Record<StatsRange, string> = {
+  "7d": "LAST 7 DAYS",
+  "30d": "LAST 30 DAYS",
+  "all": "ALL TIME",
+};
+const ART_ROUTE_PATTERN = /^\/api\/art\/([0-9a-f]{64})$/;
+const RASTER_ROUTE_PATTERN = /^\/now-playing\.(png|webp)$/;
+const RASTER_MIN_SCALE = 0.5;
+const RASTER_MAX_SCALE = 4;
+const RASTER_MAX_FRAME_SECONDS = 600;
+// Frames per second that `frame` is rounded to, so arbitrary floats do not
+// each get their own cache entry.
+const RASTER_FRAME_RATE = 10;
+const USER_ROUTE_PATTERN = /^(\/api)?\/u\/([^/]+)(\/.*)$/;
+const HISTORY_DEFAULT_LIMIT = 20;
+const HISTORY_MAX_LIMIT = 100;
+const CARD_WIDTH_BOUNDS = { min: 120, max: 1600 };
+const CARD_HEIGHT_BOUNDS = { min: MIN_CARD_HEIGHT, max: 1200 };
+const ALBUM_SIZE_BOUNDS = { min: 16, max: 800 };
+// Minutes, up to a week.
+const STALE_AFTER_BOUNDS = { min: 1, max: 7 * 24 * 60 };
+const IDLE_MESSAGE_MAX_LENGTH = 80;
 const FONT_FILE_PATTERN = /^[a-z0-9._-]+$/i;
 const FONT_FAMILY_PATTERN = /^[a-z0-9 _-]+$/i;
-const themeCache = new Map<string, SvgConfig>();
-const fontCache = new Map<string, { dataUrl: string; format: string }>();
 
-function validateAuth(req: Request): boolean {
+interface LoadedFont {
+  dataUrl: string;
+  format: string;
+  data: Uint8Array;
+  metrics: FontMetrics | null;
+}
+
+const fontCache = new Map<string, LoadedFont>();
+
+function getBearerToken(req: Request): string | null {
   const auth = req.headers.get("Authorization");
-  if (!auth) return false;
+  if (!auth) return null;
   const parts = auth.split(" ");
-  if (parts.length !== 2 || parts[0] !== "Bearer") return false;
-  return parts[1] === API_KEY;
+  if (parts.length !== 2 || parts[0] !== "Bearer") return null;
+  return parts[1];
+}
+
+async function validateAuth(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<boolean> {
+  const token = getBearerToken(req);
+  if (!token) return false;
+  if (user === DEFAULT_USER) return secretsMatch(token, API_KEY!);
+  return await verifyUserKey(kv, user, token);
+}
+
+function adminAuthError(req: Request): Response | null {
+  if (!ADMIN_API_KEY) {
+    return jsonResponse(
+      { error: "Admin API is disabled; set ADMIN_API_KEY to enable it" },
+      403,
+    );
+  }
+  const token = getBearerToken(req);
+  if (token === null || !secretsMatch(token, ADMIN_API_KEY)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+  return null;
 }
 
 async function storeNowPlaying(
   kv: Deno.Kv,
+  user: string,
   data: NowPlayingData,
 ): Promise<void> {
-  await kv.set(KV_KEY, data);
+  const key = userKey(user, NOW_PLAYING_KEY);
+  const statsPrefix = userKey(user, STATS_KEY);
+  const now = Date.now();
+
+  // Stats depend on the previous payload, so retry if another write lands
+  // between the read and the commit.
+  for (let attempt = 0; attempt < STORE_ATTEMPTS; attempt++) {
+    const current = await kv.get<NowPlayingData>(key);
+    const operation = kv.atomic().check(current).set(key, data);
+    addStatsMutations(operation, statsPrefix, current.value, data, now);
+    const result = await operation.commit();
+    if (result.ok) break;
+    if (attempt === STORE_ATTEMPTS - 1) {
+      throw new Error("Failed to store now playing data: write conflict");
+    }
+  }
+
+  invalidateRenderCache(user);
+  await pruneStats(kv, statsPrefix, now);
+  await appendHistory(
+    kv,
+    userKey(user, HISTORY_KEY),
+    data,
+    HISTORY_RETENTION_DAYS,
+  );
 }
 
-async function getNowPlaying(kv: Deno.Kv): Promise<NowPlayingData | null> {
-  const result = await kv.get<NowPlayingData>(KV_KEY);
+async function getNowPlayingEntry(
+  kv: Deno.Kv,
+  user: string,
+): Promise<Deno.KvEntryMaybe<NowPlayingData>> {
+  return await kv.get<NowPlayingData>(userKey(user, NOW_PLAYING_KEY));
+}
+
+async function getNowPlaying(
+  kv: Deno.Kv,
+  user: string,
+): Promise<NowPlayingData | null> {
+  const result = await getNowPlayingEntry(kv, user);
   return result.value;
 }
 
+function payloadTooLarge(): Response {
+  const error = `Payload exceeds ${MAX_PAYLOAD_BYTES} bytes`;
+  return new Response(JSON.stringify({ error }), {
+    status: 413,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 async function handlePostNowPlaying(
   req: Request,
   kv: Deno.Kv,
+  user: string,
 ): Promise<Response> {
-  if (!validateAuth(req)) {
+  if (!(await validateAuth(req, kv, user))) {
     return new Response(JSON.stringify({ error: "Unauthorized" }), {
       status: 401,
       headers: { "Content-Type": "application/json" },
     });
   }
 
+  const contentLength = parseInt(req.headers.get("Content-Length") || "0");
+  if (contentLength > MAX_PAYLOAD_BYTES) {
+    return payloadTooLarge();
+  }
+
+  let body: unknown;
   try {
-    const data = await req.json() as NowPlayingData;
-    await storeNowPlaying(kv, data);
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    });
+    const raw = new Uint8Array(await req.arrayBuffer());
+    if (raw.byteLength > MAX_PAYLOAD_BYTES) {
+      return payloadTooLarge();
+    }
+    body = JSON.parse(new TextDecoder().decode(raw));
   } catch (_error) {
     return new Response(JSON.stringify({ error: "Invalid JSON" }), {
       status: 400,
       headers: { "Content-Type": "application/json" },
     });
   }
+
+  const result = validateNowPlayingData(body);
+  if (!result.ok) {
+    return new Response(
+      JSON.stringify({ error: "Invalid payload", details: result.errors }),
+      {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  let data = result.value;
+  if (data.artHash) {
+    if (!(await touchArt(kv, data.artHash))) {
+      return jsonResponse({
+        error: "Invalid payload",
+        details: [{
+          field: "artHash",
+          message: "is not stored; upload it with PUT /api/art/:hash first",
+        }],
+      }, 422);
+    }
+    data = { ...data, artBase64: null };
+  } else {
+    const extracted = await extractInlineArt(kv, data);
+    if (!extracted.ok) {
+      return jsonResponse({ error: extracted.error }, extracted.status);
+    }
+    data = extracted.data;
+  }
+
+  // The body limit leaves room for inline art that is moved out above; what
+  // remains has to fit in a single KV value.
+  if (estimateRecordBytes(data) > MAX_RECORD_BYTES) {
+    return jsonResponse(
+      { error: `Stored record exceeds ${MAX_RECORD_BYTES} bytes` },
+      413,
+    );
+  }
+
+  await storeNowPlaying(kv, user, data);
+  return new Response(JSON.stringify({ success: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
 }
 
-function isSvgConfig(value: unknown): value is SvgConfig {
-  if (!value || typeof value !== "object") return false;
-  const config = value as Record<string, unknown>;
-  const isNumber = (input: unknown): input is number =>
-    typeof input === "number" && Number.isFinite(input);
-  const isString = (input: unknown): input is string =>
-    typeof input === "string" && input.length > 0;
-  const isBoolean = (input: unknown): input is boolean =>
-    typeof input === "boolean";
-  const albumPosition = config.albumPosition;
-  const textAlign = config.textAlign;
-  return isNumber(config.width) &&
-    isNumber(config.height) &&
-    isString(config.cardBackground) &&
-    isString(config.cardBorder) &&
-    isString(config.textPrimary) &&
-    isString(config.textSecondary) &&
-    isString(config.textMuted) &&
-    isNumber(config.albumSize) &&
-    isNumber(config.borderRadius) &&
-    (albumPosition === "left" || albumPosition === "right") &&
-    (textAlign === "left" || textAlign === "center" ||
-      textAlign === "right") &&
-    isBoolean(config.showStatus) &&
-    isBoolean(config.showTitle) &&
-    isBoolean(config.showArtist) &&
-    isBoolean(config.showAlbum) &&
-    isString(config.fontTitleFamily) &&
-    isString(config.fontBodyFamily) &&
-    isString(config.fontTitleFile) &&
-    isString(config.fontBodyFile) &&
-    isString(config.fontFallback);
+async function handleArt(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+  hash: string,
+): Promise<Response> {
+  // Art is content addressed, so reading it needs no key and never changes.
+  if (req.method === "GET") {
+    const art = await getArt(kv, hash);
+    if (!art) return jsonResponse({ error: "Art not found" }, 404);
+    return new Response(art.data, {
+      status: 200,
+      headers: {
+        "Content-Type": art.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  }
+
+  if (!(await validateAuth(req, kv, user))) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  if (req.method === "HEAD") {
+    return new Response(null, { status: (await hasArt(kv, hash)) ? 200 : 404 });
+  }
+
+  const contentLength = parseInt(req.headers.get("Content-Length") || "0");
+  if (contentLength > MAX_ART_BYTES) {
+    return jsonResponse({ error: `Art exceeds ${MAX_ART_BYTES} bytes` }, 413);
+  }
+  const result = await storeArt(
+    kv,
+    new Uint8Array(await req.arrayBuffer()),
+    hash,
+  );
+  if (!result.ok) {
+    return jsonResponse({ error: result.error }, result.status);
+  }
+  return jsonResponse({ success: true, hash }, result.created ? 201 : 200);
 }
 
 function getFontFormat(fileName: string): string | null {
@@ -105,7 +352,7 @@ function getFontFormat(fileName: string): string | null {
 
 async function loadFontData(
   fileName: string,
-): Promise<{ dataUrl: string; format: string } | null> {
+): Promise<LoadedFont | null> {
   if (!FONT_FILE_PATTERN.test(fileName)) {
     return null;
   }
@@ -117,13 +364,7 @@ async function loadFontData(
   try {
     const fontUrl = new URL(`./fonts/${fileName}`, import.meta.url);
     const data = await Deno.readFile(fontUrl);
-    let binary = "";
-    const chunkSize = 0x8000;
-    for (let i = 0; i < data.length; i += chunkSize) {
-      const chunk = data.subarray(i, i + chunkSize);
-      binary += String.fromCharCode(...chunk);
-    }
-    const base64 = btoa(binary);
+    const base64 = encodeBase64(data);
     const mime = format === "woff2"
       ? "font/woff2"
       : format === "woff"
@@ -132,7 +373,10 @@ async function loadFontData(
       ? "font/ttf"
       : "font/otf";
     const dataUrl = `data:${mime};base64,${base64}`;
-    const entry = { dataUrl, format };
+    const metrics = format === "truetype" || format === "opentype"
+      ? parseFontMetrics(data)
+      : null;
+    const entry = { dataUrl, format, data, metrics };
     fontCache.set(fileName, entry);
     return entry;
   } catch (error) {
@@ -178,48 +422,85 @@ function parseFontFamily(value: string | null): string | undefined {
   return normalized;
 }
 
-async function loadTheme(name: string): Promise<SvgConfig | null> {
-  if (themeCache.has(name)) {
-    return themeCache.get(name) ?? null;
-  }
+function parseIdleMessage(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const normalized = value.replace(/\s+/g, " ").trim();
+  if (!normalized) return undefined;
+  return Array.from(normalized).slice(0, IDLE_MESSAGE_MAX_LENGTH).join("");
+}
 
-  if (!THEME_NAME_PATTERN.test(name)) {
-    return null;
-  }
+function parseBoundedNumber(
+  value: string | null,
+  min: number,
+  max: number,
+): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value.trim());
+  if (!Number.isFinite(parsed)) return undefined;
+  return Math.max(min, Math.min(max, parsed));
+}
 
-  try {
-    const themeUrl = new URL(`./themes/${name}.json`, import.meta.url);
-    const raw = await Deno.readTextFile(themeUrl);
-    const parsed = JSON.parse(raw);
-    if (!isSvgConfig(parsed)) {
-      console.warn(`Theme schema invalid: ${name}`);
-      return null;
-    }
-    themeCache.set(name, parsed);
-    return parsed;
-  } catch (error) {
-    console.warn(`Failed to load theme: ${name}`, error);
-    return null;
-  }
+function parseSizeParam(
+  value: string | null,
+  bounds: { min: number; max: number },
+): number | undefined {
+  const parsed = parseBoundedNumber(value, bounds.min, bounds.max);
+  return parsed === undefined ? undefined : Math.round(parsed);
 }
 
-async function buildSvgConfig(params: URLSearchParams): Promise<SvgConfig> {
+async function resolveSvgConfig(
+  kv: Deno.Kv,
+  params: URLSearchParams,
+): Promise<SvgConfig> {
   const themeParam = params.get("theme") || "default";
   const themeName = THEME_NAME_PATTERN.test(themeParam)
     ? themeParam
     : "default";
-  const theme = await loadTheme(themeName);
+  const theme = await loadTheme(kv, themeName);
   const position = params.get("position");
-  const albumPosition = position === "right"
-    ? "right"
-    : position === "left"
-    ? "left"
-    : undefined;
+  const albumPosition =
+    position === "left" || position === "right" || position === "top"
+      ? position
+      : undefined;
   const textAlign = parseTextAlign(params.get("align"));
+  const width = parseSizeParam(params.get("w"), CARD_WIDTH_BOUNDS);
+  const height = parseSizeParam(params.get("h"), CARD_HEIGHT_BOUNDS);
+  const albumSize = parseSizeParam(params.get("size"), ALBUM_SIZE_BOUNDS);
   const showStatus = parseBooleanParam(params.get("showStatus"));
   const showTitle = parseBooleanParam(params.get("showTitle"));
   const showArtist = parseBooleanParam(params.get("showArtist"));
   const showAlbum = parseBooleanParam(params.get("showAlbum"));
+  const showProgress = parseBooleanParam(params.get("showProgress"));
+  const showThumbnail = parseBooleanParam(params.get("showThumbnail"));
+  const layoutParam = params.get("layout")?.trim().toLowerCase();
+  const layout = layoutParam === "badge" || layoutParam === "card"
+    ? layoutParam
+    : undefined;
+  const schemeParam = params.get("scheme")?.trim().toLowerCase();
+  const scheme =
+    schemeParam === "light" || schemeParam === "dark" || schemeParam === "auto"
+      ? schemeParam
+      : undefined;
+  const visualizerParam = params.get("visualizer")?.trim().toLowerCase();
+  const visualizer = isVisualizerStyle(visualizerParam)
+    ? visualizerParam
+    : undefined;
+  const staleAfterMinutes = parseBoundedNumber(
+    params.get("staleAfter"),
+    STALE_AFTER_BOUNDS.min,
+    STALE_AFTER_BOUNDS.max,
+  );
+  const idleParam = params.get("idle")?.trim().toLowerCase();
+  const idle = idleParam === "last" || idleParam === "dim" ||
+      idleParam === "ago" || idleParam === "hide"
+    ? idleParam
+    : undefined;
+  const idleMessage = parseIdleMessage(params.get("idleMessage"));
+  const contrastParam = params.get("contrast")?.trim().toLowerCase();
+  const contrast = contrastParam === "aa" || contrastParam === "strict" ||
+      contrastParam === "off"
+    ? contrastParam
+    : undefined;
   const fontTitleFile = parseFontFile(params.get("fontTitle"));
   const fontBodyFile = parseFontFile(params.get("fontBody"));
   const fontTitleFamilyParam = parseFontFamily(params.get("fontTitleFamily"));
@@ -228,49 +509,274 @@ async function buildSvgConfig(params: URLSearchParams): Promise<SvgConfig> {
     (fontTitleFile ? inferFontFamily(fontTitleFile) : undefined);
   const fontBodyFamily = fontBodyFamilyParam ||
     (fontBodyFile ? inferFontFamily(fontBodyFile) : undefined);
-  const baseConfig: SvgConfig = {
+  return {
     ...defaultSvgConfig,
     ...(theme || {}),
     ...(albumPosition ? { albumPosition } : {}),
     ...(textAlign ? { textAlign } : {}),
+    ...(width !== undefined ? { width } : {}),
+    ...(height !== undefined ? { height } : {}),
+    ...(albumSize !== undefined ? { albumSize } : {}),
     ...(showStatus !== undefined ? { showStatus } : {}),
     ...(showTitle !== undefined ? { showTitle } : {}),
     ...(showArtist !== undefined ? { showArtist } : {}),
     ...(showAlbum !== undefined ? { showAlbum } : {}),
+    ...(showProgress !== undefined ? { showProgress } : {}),
+    ...(showThumbnail !== undefined ? { showThumbnail } : {}),
+    ...(layout ? { layout } : {}),
+    ...(scheme ? { scheme } : {}),
+    ...(visualizer ? { visualizer } : {}),
+    ...(staleAfterMinutes !== undefined ? { staleAfterMinutes } : {}),
+    ...(idle ? { idle } : {}),
+    ...(idleMessage ? { idleMessage } : {}),
+    ...(contrast ? { contrast } : {}),
     ...(fontTitleFile ? { fontTitleFile } : {}),
     ...(fontBodyFile ? { fontBodyFile } : {}),
     ...(fontTitleFamily ? { fontTitleFamily } : {}),
     ...(fontBodyFamily ? { fontBodyFamily } : {}),
   };
+}
+
+async function withFontMetrics(baseConfig: SvgConfig): Promise<SvgConfig> {
   const titleFont = await loadFontData(baseConfig.fontTitleFile);
   const bodyFont = await loadFontData(baseConfig.fontBodyFile);
   return {
     ...baseConfig,
+    fontTitleMetrics: titleFont?.metrics ?? undefined,
+    fontBodyMetrics: bodyFont?.metrics ?? undefined,
+  };
+}
+
+async function embedFont(
+  fileName: string,
+  text: string,
+): Promise<{ dataUrl: string; format: string } | null> {
+  const font = await loadFontData(fileName);
+  if (!font) return null;
+  return await subsetFontData(fileName, font.data, text) ?? font;
+}
+
+/**
+ * Render an SVG with fonts embedded as subsets of the glyphs it uses.
+ *
+ * A first pass without embedded fonts collects the rendered text, which is
+ * then used to subset both fonts for the final pass. Both passes share one
+ * render time so time-dependent text cannot change between them.
+ *
+ * @param config Config with font metrics attached.
+ * @param render SVG generator for a config and render time.
+ * @param now Render time.
+ * @returns SVG markup with embedded fonts.
+ */
+async function renderWithFonts(
+  config: SvgConfig,
+  render: (config: SvgConfig, now: number) => string,
+  now: number = Date.now(),
+): Promise<string> {
+  const text = extractSvgText(render(config, now));
+  const [titleFont, bodyFont] = await Promise.all([
+    embedFont(config.fontTitleFile, text),
+    embedFont(config.fontBodyFile, text),
+  ]);
+  return render({
+    ...config,
     fontTitleDataUrl: titleFont?.dataUrl,
     fontBodyDataUrl: bodyFont?.dataUrl,
     fontTitleFormat: titleFont?.format,
     fontBodyFormat: bodyFont?.format,
+  }, now);
+}
+
+async function buildSvgConfig(
+  kv: Deno.Kv,
+  params: URLSearchParams,
+): Promise<SvgConfig> {
+  return await withFontMetrics(await resolveSvgConfig(kv, params));
+}
+
+async function respondWithRender(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+  contentType: string,
+  variant: string,
+  render: (
+    data: NowPlayingData | null,
+    config: SvgConfig,
+  ) => Promise<string | Uint8Array<ArrayBuffer>>,
+  expiresAt: typeof renderExpiresAt = renderExpiresAt,
+): Promise<Response> {
+  const entry = await getNowPlayingEntry(kv, user);
+  const data = entry.value;
+  const params = new URL(req.url).searchParams;
+  const baseConfig = await resolveSvgConfig(kv, params);
+  const cacheKey = renderCacheKey(
+    user,
+    entry.versionstamp,
+    baseConfig,
+    variant,
+  );
+  let cached = getCachedRender(cacheKey);
+
+  if (!cached) {
+    const now = Date.now();
+    const body = await render(data, await withFontMetrics(baseConfig));
+    cached = {
+      body,
+      etag: await computeEtag(body),
+      lastModified: data?.updatedAt ?? now,
+      expiresAt: expiresAt(data, baseConfig, now),
+    };
+    setCachedRender(cacheKey, cached);
+  }
+
+  const headers = {
+    "Content-Type": contentType,
+    "Cache-Control": "s-maxage=1",
+    ETag: cached.etag,
+    "Last-Modified": new Date(cached.lastModified).toUTCString(),
   };
+
+  if (etagMatches(req.headers.get("If-None-Match"), cached.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(cached.body, { status: 200, headers });
+}
+
+async function handleGetSvg(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
+  return await respondWithRender(
+    req,
+    kv,
+    user,
+    "image/svg+xml",
+    "svg",
+    async (data, config) => {
+      // Stored art is only loaded for a fresh render, not for cache hits.
+      const withArt = await resolveArt(kv, data);
+      return await renderWithFonts(
+        config,
+        (fontConfig, now) => generateNowPlayingSvg(withArt, fontConfig, now),
+      );
+    },
+  );
 }
 
-async function handleGetSvg(req: Request, kv: Deno.Kv): Promise<Response> {
-  const data = await getNowPlaying(kv);
+async function handleGetRaster(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+  format: RasterFormat,
+): Promise<Response> {
   const params = new URL(req.url).searchParams;
-  const config = await buildSvgConfig(params);
-  const svg = generateNowPlayingSvg(data, config);
+  const scale = Math.round(
+    (parseBoundedNumber(
+      params.get("scale"),
+      RASTER_MIN_SCALE,
+      RASTER_MAX_SCALE,
+    ) ?? 1) * 100,
+  ) / 100;
+  const frame = Math.round(
+    (parseBoundedNumber(
+      params.get("frame"),
+      0,
+      RASTER_MAX_FRAME_SECONDS,
+    ) ?? 0) * RASTER_FRAME_RATE,
+  ) / RASTER_FRAME_RATE;
+
+  return await respondWithRender(
+    req,
+    kv,
+    user,
+    RASTER_MIME_TYPES[format],
+    `${format}:${scale}:${frame}`,
+    async (data, config) => {
+      const withArt = await toRasterArt(await resolveArt(kv, data));
+      // resvg ignores media queries, so pick one scheme up front.
+      const svg = freezeAnimations(
+        generateNowPlayingSvg(withArt, {
+          ...config,
+          scheme: resolveStaticScheme(config),
+        }),
+        frame,
+      );
+      const fonts = await Promise.all(
+        [config.fontTitleFile, config.fontBodyFile].map(loadFontData),
+      );
+      return await rasterizeSvg(
+        svg,
+        format,
+        scale,
+        fonts.flatMap((font) => font ? [font.data] : []),
+        config.fontBodyFamily,
+      );
+    },
+  );
+}
 
-  return new Response(svg, {
+async function handleGetNowPlaying(
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
+  const data = await resolveArt(kv, await getNowPlaying(kv, user));
+  return new Response(JSON.stringify(data), {
     status: 200,
     headers: {
-      "Content-Type": "image/svg+xml",
-      "Cache-Control": "s-maxage=1",
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
     },
   });
 }
 
-async function handleGetNowPlaying(kv: Deno.Kv): Promise<Response> {
-  const data = await getNowPlaying(kv);
-  return new Response(JSON.stringify(data), {
+function handleGetNowPlayingStream(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Response {
+  const stream = createNowPlayingStream(
+    kv,
+    userKey(user, NOW_PLAYING_KEY),
+    req.headers.get("Last-Event-ID"),
+  );
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+function parseIntegerParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value.trim(), 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+async function handleGetHistory(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+  const limitParam = parseIntegerParam(params.get("limit"));
+  const limit = Math.max(
+    1,
+    Math.min(HISTORY_MAX_LIMIT, limitParam ?? HISTORY_DEFAULT_LIMIT),
+  );
+  const before = parseIntegerParam(params.get("before")) ?? null;
+  const page = await listHistory(
+    kv,
+    userKey(user, HISTORY_KEY),
+    limit,
+    before,
+  );
+  return new Response(JSON.stringify(page), {
     status: 200,
     headers: {
       "Content-Type": "application/json",
@@ -279,11 +785,91 @@ async function handleGetNowPlaying(kv: Deno.Kv): Promise<Response> {
   });
 }
 
-async function handleGetPreview(req: Request, kv: Deno.Kv): Promise<Response> {
-  const data = await getNowPlaying(kv);
+function parseStatsRange(value: string | null): StatsRange {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  return normalized in STATS_RANGES ? normalized as StatsRange : "7d";
+}
+
+async function handleGetStats(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
   const params = new URL(req.url).searchParams;
-  const config = await buildSvgConfig(params);
-  const svg = generateNowPlayingSvg(data, config);
+  const range = parseStatsRange(params.get("range"));
+  const limit = Math.max(
+    1,
+    Math.min(
+      STATS_MAX_LIMIT,
+      parseIntegerParam(params.get("limit")) ?? STATS_DEFAULT_LIMIT,
+    ),
+  );
+  const stats = await getStats(kv, userKey(user, STATS_KEY), range, limit);
+  return new Response(JSON.stringify(stats), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+async function handleGetTopArtistsSvg(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+  const range = parseStatsRange(params.get("range"));
+  const limit = Math.max(
+    1,
+    Math.min(
+      TOP_ARTISTS_MAX_LIMIT,
+      parseIntegerParam(params.get("limit")) ?? TOP_ARTISTS_DEFAULT_LIMIT,
+    ),
+  );
+  return await respondWithRender(
+    req,
+    kv,
+    user,
+    "image/svg+xml",
+    `top-artists:${range}:${limit}`,
+    async (data, config) => {
+      const stats = await getStats(
+        kv,
+        userKey(user, STATS_KEY),
+        range,
+        limit,
+        ["artist"],
+      );
+      return await renderWithFonts(
+        config,
+        (fontConfig) =>
+          generateTopArtistsSvg(
+            stats.artists,
+            STATS_RANGE_LABELS[range],
+            data?.colors ?? null,
+            fontConfig,
+          ),
+      );
+    },
+    // The card only shows stats, which roll over at UTC midnight.
+    (_data, _config, now) => statsExpiresAt(range, now),
+  );
+}
+
+async function handleGetPreview(
+  req: Request,
+  kv: Deno.Kv,
+  user: string,
+): Promise<Response> {
+  const data = await resolveArt(kv, await getNowPlaying(kv, user));
+  const params = new URL(req.url).searchParams;
+  const config = await buildSvgConfig(kv, params);
+  const svg = await renderWithFonts(
+    config,
+    (fontConfig, now) => generateNowPlayingSvg(data, fontConfig, now),
+  );
   const html = `<!doctype html>
 <html lang="en">
   <head>
@@ -355,14 +941,156 @@ async function handleGetPreview(req: Request, kv: Deno.Kv): Promise<Response> {
   });
 }
 
+function resolveUserRoute(
+  path: string,
+): { user: string; path: string } | null {
+  const match = path.match(USER_ROUTE_PATTERN);
+  if (!match) return { user: DEFAULT_USER, path };
+  const user = parseUserSlug(match[2]);
+  if (!user) return null;
+  return { user, path: `${match[1] || ""}${match[3]}` };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleAdminUsers(
+  req: Request,
+  kv: Deno.Kv,
+  slugParam: string | null,
+): Promise<Response> {
+  const authError = adminAuthError(req);
+  if (authError) return authError;
+
+  if (slugParam === null && req.method === "GET") {
+    const users = await listUsers(kv);
+    return jsonResponse({
+      users: users.map(({ slug, createdAt }) => ({ slug, createdAt })),
+    });
+  }
+
+  if (slugParam === null && req.method === "POST") {
+    let body: { slug?: unknown };
+    try {
+      body = await req.json();
+    } catch (_error) {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+    const slug = typeof body?.slug === "string"
+      ? parseUserSlug(body.slug)
+      : null;
+    if (!slug || slug === DEFAULT_USER) {
+      return jsonResponse({ error: "Invalid user slug" }, 422);
+    }
+    const created = await createUser(kv, slug);
+    if (!created) {
+      return jsonResponse({ error: "User already exists" }, 409);
+    }
+    return jsonResponse({
+      slug,
+      apiKey: created.apiKey,
+      widget: `/u/${slug}/now-playing.svg`,
+      update: `POST /api/u/${slug}/now-playing`,
+    }, 201);
+  }
+
+  if (slugParam !== null && req.method === "DELETE") {
+    const slug = parseUserSlug(slugParam);
+    if (!slug || !(await revokeUser(kv, slug))) {
+      return jsonResponse({ error: "User not found" }, 404);
+    }
+    invalidateRenderCache(slug);
+    return jsonResponse({ success: true });
+  }
+
+  return jsonResponse({ error: "Not found" }, 404);
+}
+
+async function handleThemes(
+  req: Request,
+  kv: Deno.Kv,
+  nameParam: string | null,
+): Promise<Response> {
+  if (nameParam === null) {
+    if (req.method !== "GET") {
+      return jsonResponse({ error: "Not found" }, 404);
+    }
+    return jsonResponse({ themes: await listThemes(kv) });
+  }
+
+  const name = nameParam;
+  if (!THEME_NAME_PATTERN.test(name)) {
+    return jsonResponse({ error: "Invalid theme name" }, 422);
+  }
+
+  if (req.method === "GET") {
+    const theme = await loadTheme(kv, name);
+    return theme
+      ? jsonResponse(theme)
+      : jsonResponse({ error: "Theme not found" }, 404);
+  }
+
+  const authError = adminAuthError(req);
+  if (authError) return authError;
+
+  if (req.method === "DELETE") {
+    if (!(await deleteTheme(kv, name))) {
+      return jsonResponse({ error: "Theme not found" }, 404);
+    }
+    return jsonResponse({ success: true });
+  }
+
+  if (req.method !== "POST" && req.method !== "PUT") {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (_error) {
+    return jsonResponse({ error: "Invalid JSON" }, 400);
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return jsonResponse({ error: "Theme must be a JSON object" }, 422);
+  }
+  const {
+    fontTitleDataUrl: _fontTitleDataUrl,
+    fontBodyDataUrl: _fontBodyDataUrl,
+    fontTitleFormat: _fontTitleFormat,
+    fontBodyFormat: _fontBodyFormat,
+    fontTitleMetrics: _fontTitleMetrics,
+    fontBodyMetrics: _fontBodyMetrics,
+    ...theme
+  } = body as ThemeFile;
+  const resolved = await resolveTheme(kv, name, theme);
+  if (!resolved.ok) {
+    return jsonResponse(
+      { error: "Theme schema invalid", details: resolved.errors },
+      422,
+    );
+  }
+  const isCreate = req.method === "POST";
+  const existed = (await getStoredTheme(kv, name)) !== null;
+  if (!(await saveTheme(kv, name, theme, !isCreate))) {
+    return jsonResponse({ error: "Theme already exists" }, 409);
+  }
+  return jsonResponse({ success: true, name }, existed ? 200 : 201);
+}
+
 async function handleRequest(req: Request, kv: Deno.Kv): Promise<Response> {
   const url = new URL(req.url);
-  const path = url.pathname;
+  const route = resolveUserRoute(url.pathname);
 
   const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, HEAD, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Authorization, Content-Type, If-None-Match, Last-Event-ID",
+    "Access-Control-Expose-Headers": "ETag, Last-Modified",
   };
 
   if (req.method === "OPTIONS") {
@@ -371,23 +1099,70 @@ async function handleRequest(req: Request, kv: Deno.Kv): Promise<Response> {
 
   try {
     let response: Response;
+    const path = route?.path ?? "";
+    const user = route?.user ?? DEFAULT_USER;
+    const rasterMatch = path.match(RASTER_ROUTE_PATTERN);
+    const artMatch = path.match(ART_ROUTE_PATTERN);
+    const themeMatch = path.match(/^\/api\/themes(?:\/([^/]+))?$/);
+    const adminMatch = path.match(/^\/api\/admin\/users(?:\/([^/]+))?$/);
 
-    if (path === "/now-playing.svg" && req.method === "GET") {
-      response = await handleGetSvg(req, kv);
+    if (
+      !route ||
+      (user !== DEFAULT_USER && !(await getUser(kv, user)))
+    ) {
+      response = jsonResponse({ error: "User not found" }, 404);
+    } else if (adminMatch && user === DEFAULT_USER) {
+      response = await handleAdminUsers(req, kv, adminMatch[1] ?? null);
+    } else if (themeMatch && user === DEFAULT_USER) {
+      response = await handleThemes(req, kv, themeMatch[1] ?? null);
+    } else if (path === "/now-playing.svg" && req.method === "GET") {
+      response = await handleGetSvg(req, kv, user);
+    } else if (rasterMatch && req.method === "GET") {
+      response = await handleGetRaster(
+        req,
+        kv,
+        user,
+        rasterMatch[1] as RasterFormat,
+      );
+    } else if (path === "/top-artists.svg" && req.method === "GET") {
+      response = await handleGetTopArtistsSvg(req, kv, user);
+    } else if (path === "/api/stats" && req.method === "GET") {
+      response = await handleGetStats(req, kv, user);
     } else if (path === "/preview" && req.method === "GET") {
-      response = await handleGetPreview(req, kv);
+      response = await handleGetPreview(req, kv, user);
     } else if (path === "/api/now-playing" && req.method === "POST") {
-      response = await handlePostNowPlaying(req, kv);
+      response = await handlePostNowPlaying(req, kv, user);
+    } else if (
+      artMatch &&
+      (req.method === "GET" || req.method === "HEAD" || req.method === "PUT")
+    ) {
+      response = await handleArt(req, kv, user, artMatch[1]);
     } else if (path === "/api/now-playing" && req.method === "GET") {
-      response = await handleGetNowPlaying(kv);
-    } else if (path === "/") {
+      response = await handleGetNowPlaying(kv, user);
+    } else if (
+      path === "/api/now-playing/stream" && req.method === "GET"
+    ) {
+      response = handleGetNowPlayingStream(req, kv, user);
+    } else if (path === "/api/history" && req.method === "GET") {
+      response = await handleGetHistory(req, kv, user);
+    } else if (path === "/" && user === DEFAULT_USER) {
       response = new Response(
         JSON.stringify({
           endpoints: {
             widget: "/now-playing.svg",
+            raster: "/now-playing.png, /now-playing.webp",
             preview: "/preview",
             update: "POST /api/now-playing",
+            art: "GET, HEAD, PUT /api/art/:sha256",
             debug: "/api/now-playing",
+            stream: "/api/now-playing/stream",
+            history: "/api/history",
+            stats: "/api/stats?range=7d|30d|all",
+            topArtists: "/top-artists.svg",
+            userWidget: "/u/:user/now-playing.svg",
+            userUpdate: "POST /api/u/:user/now-playing",
+            admin: "/api/admin/users",
+            themes: "/api/themes",
           },
         }),
         {
@@ -424,6 +1199,9 @@ async function handleRequest(req: Request, kv: Deno.Kv): Promise<Response> {
 async function main(): Promise<void> {
   const kv = await Deno.openKv();
   console.log("KV connected");
+  if (!ADMIN_API_KEY) {
+    console.log("ADMIN_API_KEY not set, user and theme management disabled");
+  }
 
   const port = parseInt(Deno.env.get("PORT") || "8000");
 
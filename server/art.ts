@@ -0,0 +1,168 @@
+import { MAX_ART_BYTES, NowPlayingData } from "../types.ts";
+import { decodeBase64, encodeBase64, sha256Hex } from "../encoding.ts";
+import { DAY_MS } from "./time.ts";
+import { detectImageType } from "./validate.ts";
+
+const ART_PREFIX = "art";
+const ART_RETENTION_DAYS = 30;
+
+export interface StoredArt {
+  contentType: string;
+  data: Uint8Array<ArrayBuffer>;
+  storedAt: number;
+}
+
+export type StoreArtResult =
+  | { ok: true; hash: string; created: boolean }
+  | { ok: false; status: number; error: string };
+
+export type ExtractArtResult =
+  | { ok: true; data: NowPlayingData }
+  | { ok: false; status: number; error: string };
+
+function artKey(hash: string): Deno.KvKey {
+  return [ART_PREFIX, hash];
+}
+
+/**
+ * Hash image bytes for content-addressed storage.
+ *
+ * @param data Image bytes.
+ * @returns Hex encoded SHA-256 digest.
+ */
+export function hashArt(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  return sha256Hex(data);
+}
+
+/**
+ * Check whether art is stored, refreshing its expiry when it is getting old.
+ *
+ * Art expires ART_RETENTION_DAYS after it was stored. Referencing it again
+ * past half that age rewrites the entry so art in regular rotation stays.
+ *
+ * @param kv KV handle.
+ * @param hash SHA-256 of the image bytes.
+ * @returns True when the art exists.
+ */
+export async function touchArt(kv: Deno.Kv, hash: string): Promise<boolean> {
+  const entry = await kv.get<StoredArt>(artKey(hash));
+  if (!entry.value) return false;
+  const expireIn = ART_RETENTION_DAYS * DAY_MS;
+  const now = Date.now();
+  if (now - entry.value.storedAt > expireIn / 2) {
+    await kv.set(artKey(hash), { ...entry.value, storedAt: now }, {
+      expireIn,
+    });
+  }
+  return true;
+}
+
+/**
+ * Load stored art.
+ *
+ * @param kv KV handle.
+ * @param hash SHA-256 of the image bytes.
+ * @returns Stored art, or null when missing or expired.
+ */
+export async function getArt(
+  kv: Deno.Kv,
+  hash: string,
+): Promise<StoredArt | null> {
+  const entry = await kv.get<StoredArt>(artKey(hash));
+  return entry.value;
+}
+
+/**
+ * Check whether art is stored without touching it.
+ *
+ * @param kv KV handle.
+ * @param hash SHA-256 of the image bytes.
+ * @returns True when the art exists.
+ */
+export async function hasArt(kv: Deno.Kv, hash: string): Promise<boolean> {
+  const entry = await kv.get<StoredArt>(artKey(hash));
+  return entry.value !== null;
+}
+
+/**
+ * Store image bytes under their SHA-256.
+ *
+ * @param kv KV handle.
+ * @param data Image bytes.
+ * @param expectedHash Hash the client claims, checked against the bytes.
+ * @returns The hash, or the status and message to report.
+ */
+export async function storeArt(
+  kv: Deno.Kv,
+  data: Uint8Array<ArrayBuffer>,
+  expectedHash: string | null = null,
+): Promise<StoreArtResult> {
+  if (data.byteLength > MAX_ART_BYTES) {
+    return {
+      ok: false,
+      status: 413,
+      error: `Art exceeds ${MAX_ART_BYTES} bytes`,
+    };
+  }
+  const contentType = detectImageType(data);
+  if (!contentType) {
+    return {
+      ok: false,
+      status: 415,
+      error: "Art must be a JPEG, PNG, WebP or AVIF image",
+    };
+  }
+  const hash = await hashArt(data);
+  if (expectedHash !== null && hash !== expectedHash) {
+    return { ok: false, status: 400, error: "Art does not match its hash" };
+  }
+  if (await touchArt(kv, hash)) {
+    return { ok: true, hash, created: false };
+  }
+  const art: StoredArt = { contentType, data, storedAt: Date.now() };
+  await kv.set(artKey(hash), art, { expireIn: ART_RETENTION_DAYS * DAY_MS });
+  return { ok: true, hash, created: true };
+}
+
+/**
+ * Move inline art from a legacy payload into content-addressed storage.
+ *
+ * Art is never stored inside the record, so art that cannot be stored (for
+ * example because it exceeds MAX_ART_BYTES) rejects the update.
+ *
+ * @param kv KV handle.
+ * @param data Validated payload.
+ * @returns Payload referencing its art by hash, or the status and message to
+ *   report.
+ */
+export async function extractInlineArt(
+  kv: Deno.Kv,
+  data: NowPlayingData,
+): Promise<ExtractArtResult> {
+  if (!data.artBase64) return { ok: true, data };
+  const result = await storeArt(kv, decodeBase64(data.artBase64));
+  if (!result.ok) return result;
+  return { ok: true, data: { ...data, artBase64: null, artHash: result.hash } };
+}
+
+/**
+ * Fill in the art of a payload that references it by hash.
+ *
+ * @param kv KV handle.
+ * @param data Stored now playing payload.
+ * @returns Payload with `artBase64` set, or unchanged when the art is inline
+ *   or has expired.
+ */
+export async function resolveArt(
+  kv: Deno.Kv,
+  data: NowPlayingData | null,
+): Promise<NowPlayingData | null> {
+  if (!data || data.artBase64 || !data.artHash) return data;
+  const entry = await kv.get<StoredArt>(artKey(data.artHash));
+  if (!entry.value) return data;
+  return {
+    ...data,
+    artBase64: encodeBase64(entry.value.data),
+    artMimeType: entry.value.contentType,
+  };
+}
@@ -0,0 +1,163 @@
+import { FontMetrics } from "../types.ts";
+
+const SFNT_VERSIONS = new Set([0x00010000, 0x4f54544f, 0x74727565]);
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+function readTables(view: DataView): Map<string, TableRecord> {
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3),
+    );
+    tables.set(tag, {
+      offset: view.getUint32(record + 8),
+      length: view.getUint32(record + 12),
+    });
+  }
+  return tables;
+}
+
+function readGlyphAdvances(
+  view: DataView,
+  hhea: TableRecord,
+  hmtx: TableRecord,
+  maxp: TableRecord,
+): number[] {
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const numGlyphs = view.getUint16(maxp.offset + 4);
+  const advances: number[] = [];
+  for (let glyph = 0; glyph < numberOfHMetrics; glyph++) {
+    advances.push(view.getUint16(hmtx.offset + glyph * 4));
+  }
+  // Glyphs past numberOfHMetrics share the last advance (monospaced tails).
+  const last = advances.at(-1) ?? 0;
+  for (let glyph = numberOfHMetrics; glyph < numGlyphs; glyph++) {
+    advances.push(last);
+  }
+  return advances;
+}
+
+function readFormat4(
+  view: DataView,
+  offset: number,
+  glyphAdvances: number[],
+  advances: Map<number, number>,
+): void {
+  const segCount = view.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  for (let segment = 0; segment < segCount; segment++) {
+    const end = view.getUint16(endCodes + segment * 2);
+    const start = view.getUint16(startCodes + segment * 2);
+    const delta = view.getInt16(idDeltas + segment * 2);
+    const rangeOffsetPosition = idRangeOffsets + segment * 2;
+    const rangeOffset = view.getUint16(rangeOffsetPosition);
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        const glyphPosition = rangeOffsetPosition + rangeOffset +
+          (code - start) * 2;
+        glyph = view.getUint16(glyphPosition);
+        if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph !== 0 && glyph < glyphAdvances.length) {
+        advances.set(code, glyphAdvances[glyph]);
+      }
+    }
+  }
+}
+
+function readFormat12(
+  view: DataView,
+  offset: number,
+  glyphAdvances: number[],
+  advances: Map<number, number>,
+): void {
+  const numGroups = view.getUint32(offset + 12);
+  for (let group = 0; group < numGroups; group++) {
+    const record = offset + 16 + group * 12;
+    const start = view.getUint32(record);
+    const end = view.getUint32(record + 4);
+    const startGlyph = view.getUint32(record + 8);
+    for (let code = start; code <= end; code++) {
+      const glyph = startGlyph + (code - start);
+      if (glyph !== 0 && glyph < glyphAdvances.length) {
+        advances.set(code, glyphAdvances[glyph]);
+      }
+    }
+  }
+}
+
+function findUnicodeSubtable(
+  view: DataView,
+  cmap: TableRecord,
+): { offset: number; format: number } | null {
+  const numTables = view.getUint16(cmap.offset + 2);
+  let best: { offset: number; format: number } | null = null;
+  for (let i = 0; i < numTables; i++) {
+    const record = cmap.offset + 4 + i * 8;
+    const platformId = view.getUint16(record);
+    const encodingId = view.getUint16(record + 2);
+    const offset = cmap.offset + view.getUint32(record + 4);
+    const format = view.getUint16(offset);
+    const isUnicode = platformId === 0 ||
+      (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!isUnicode || (format !== 4 && format !== 12)) continue;
+    // Prefer the full-repertoire format 12 table when a font has both.
+    if (!best || format === 12) best = { offset, format };
+  }
+  return best;
+}
+
+/**
+ * Read per-character advance widths from a TrueType or OpenType font.
+ *
+ * Only uncompressed sfnt files are supported; WOFF and WOFF2 return null so
+ * callers fall back to estimated widths.
+ *
+ * @param data Raw font file.
+ * @returns Advance widths keyed by code point, or null when unreadable.
+ */
+export function parseFontMetrics(data: Uint8Array): FontMetrics | null {
+  try {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (!SFNT_VERSIONS.has(view.getUint32(0))) return null;
+    const tables = readTables(view);
+    const head = tables.get("head");
+    const hhea = tables.get("hhea");
+    const hmtx = tables.get("hmtx");
+    const maxp = tables.get("maxp");
+    const cmap = tables.get("cmap");
+    if (!head || !hhea || !hmtx || !maxp || !cmap) return null;
+
+    const unitsPerEm = view.getUint16(head.offset + 18);
+    const subtable = findUnicodeSubtable(view, cmap);
+    if (!unitsPerEm || !subtable) return null;
+
+    const glyphAdvances = readGlyphAdvances(view, hhea, hmtx, maxp);
+    const advances = new Map<number, number>();
+    if (subtable.format === 4) {
+      readFormat4(view, subtable.offset, glyphAdvances, advances);
+    } else {
+      readFormat12(view, subtable.offset, glyphAdvances, advances);
+    }
+    return { unitsPerEm, advances };
+  } catch (error) {
+    console.warn("Failed to read font metrics", error);
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+import { Buffer } from "node:buffer";
+import subsetFontModule from "subset-font";
+import { encodeBase64 } from "../encoding.ts";
+import { createLruMap } from "./lru.ts";
+
+const MAX_SUBSETS = 100;
+
+type SubsetFont = (
+  font: Buffer,
+  text: string,
+  options: { targetFormat: "woff2" },
+) => Promise<Buffer>;
+
+const subsetFont = subsetFontModule as SubsetFont;
+
+export interface FontSubset {
+  dataUrl: string;
+  format: string;
+}
+
+const subsetCache = createLruMap<string, Promise<FontSubset | null>>({
+  maxEntries: MAX_SUBSETS,
+});
+
+function glyphSetKey(text: string): string {
+  return [...new Set(text)].sort().join("");
+}
+
+/**
+ * Build a WOFF2 font containing only the glyphs needed for some text.
+ *
+ * Subsets are cached by font and character set, so repeated renders of the
+ * same track reuse the encoded font.
+ *
+ * @param fileName Font file name, used as the cache key.
+ * @param data Full font file.
+ * @param text Every string rendered with the font.
+ * @returns Subset font as a data URL, or null when subsetting fails.
+ */
+export function subsetFontData(
+  fileName: string,
+  data: Uint8Array,
+  text: string,
+): Promise<FontSubset | null> {
+  const glyphs = glyphSetKey(text);
+  const key = `${fileName}\u0000${glyphs}`;
+  const cached = subsetCache.get(key);
+  if (cached) return cached;
+
+  const pending = subsetFont(Buffer.from(data), glyphs, {
+    targetFormat: "woff2",
+  }).then((subset): FontSubset => ({
+    dataUrl: `data:font/woff2;base64,${encodeBase64(subset)}`,
+    format: "woff2",
+  })).catch((error) => {
+    console.warn(`Failed to subset font: ${fileName}`, error);
+    subsetCache.delete(key);
+    return null;
+  });
+
+  subsetCache.set(key, pending);
+  return pending;
+}
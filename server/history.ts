@@ -0,0 +1,132 @@
+import { HistoryEntry, NowPlayingData } from "../types.ts";
+import { DAY_MS } from "./time.ts";
+
+const HISTORY_MERGE_WINDOW_MS = 10 * 60 * 1000;
+const HISTORY_PRUNE_BATCH = 100;
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextBefore: number | null;
+}
+
+function isSameTrack(entry: HistoryEntry, data: NowPlayingData): boolean {
+  return entry.title === data.title &&
+    entry.artist === data.artist &&
+    entry.album === data.album;
+}
+
+async function getLatestEntry(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+): Promise<Deno.KvEntry<HistoryEntry> | null> {
+  const iter = kv.list<HistoryEntry>({ prefix }, {
+    reverse: true,
+    limit: 1,
+  });
+  for await (const entry of iter) {
+    return entry;
+  }
+  return null;
+}
+
+/**
+ * Record a play in the listening history.
+ *
+ * Consecutive updates for the same track (pause/resume) extend the latest
+ * entry instead of adding a new one.
+ *
+ * @param kv KV handle.
+ * @param prefix History key prefix for the user.
+ * @param data Now playing payload that was just stored.
+ * @param retentionDays Days to keep entries before they expire.
+ */
+export async function appendHistory(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  data: NowPlayingData,
+  retentionDays: number,
+): Promise<void> {
+  const now = Date.now();
+  const expireIn = retentionDays * DAY_MS;
+  const latest = await getLatestEntry(kv, prefix);
+
+  if (
+    latest && isSameTrack(latest.value, data) &&
+    data.updatedAt - latest.value.updatedAt <=
+      latest.value.duration + HISTORY_MERGE_WINDOW_MS
+  ) {
+    await kv.set(latest.key, { ...latest.value, updatedAt: data.updatedAt }, {
+      expireIn,
+    });
+    return;
+  }
+
+  const entry: HistoryEntry = {
+    title: data.title,
+    artist: data.artist,
+    album: data.album,
+    albumArtist: data.albumArtist,
+    duration: data.duration,
+    playedAt: now,
+    updatedAt: data.updatedAt,
+  };
+  await kv.set([...prefix, now], entry, { expireIn });
+  await pruneHistory(kv, prefix, now - expireIn);
+}
+
+/**
+ * Delete history entries played before the cutoff.
+ *
+ * KV expiry is eventual, so this keeps listings bounded even when expired
+ * entries linger.
+ *
+ * @param kv KV handle.
+ * @param prefix History key prefix for the user.
+ * @param cutoff Oldest playedAt timestamp to keep.
+ * @returns Number of deleted entries.
+ */
+export async function pruneHistory(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  cutoff: number,
+): Promise<number> {
+  const iter = kv.list<HistoryEntry>({
+    prefix,
+    end: [...prefix, cutoff],
+  }, { limit: HISTORY_PRUNE_BATCH });
+  let deleted = 0;
+  for await (const entry of iter) {
+    await kv.delete(entry.key);
+    deleted++;
+  }
+  return deleted;
+}
+
+/**
+ * List history entries, newest first.
+ *
+ * @param kv KV handle.
+ * @param prefix History key prefix for the user.
+ * @param limit Maximum number of entries to return.
+ * @param before Only return entries played before this timestamp.
+ * @returns Page of entries and the cursor for the next page.
+ */
+export async function listHistory(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  limit: number,
+  before: number | null,
+): Promise<HistoryPage> {
+  const iter = kv.list<HistoryEntry>(
+    before === null ? { prefix } : { prefix, end: [...prefix, before] },
+    { reverse: true, limit },
+  );
+  const entries: HistoryEntry[] = [];
+  for await (const entry of iter) {
+    entries.push(entry.value);
+  }
+  const nextBefore = entries.length === limit
+    ? entries[entries.length - 1].playedAt
+    : null;
+  return { entries, nextBefore };
+}
@@ -0,0 +1,61 @@
+export interface LruMap<K, V> {
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  delete(key: K): void;
+  keys(): IterableIterator<K>;
+}
+
+export interface LruOptions<V> {
+  maxEntries: number;
+  // Optional bound on the summed sizeOf of all values.
+  maxSize?: number;
+  sizeOf?: (value: V) => number;
+}
+
+/**
+ * Create an in-memory map that evicts its least recently used entries.
+ *
+ * Reads refresh an entry; writes evict from the oldest end until both the
+ * entry count and the total size are within bounds. A value larger than
+ * maxSize on its own is not stored.
+ *
+ * @param options Entry count and size limits.
+ * @returns Empty LRU map.
+ */
+export function createLruMap<K, V>(options: LruOptions<V>): LruMap<K, V> {
+  const entries = new Map<K, V>();
+  const sizeOf = options.sizeOf ?? (() => 0);
+  const maxSize = options.maxSize ?? Number.POSITIVE_INFINITY;
+  let totalSize = 0;
+
+  const remove = (key: K): void => {
+    if (!entries.has(key)) return;
+    totalSize -= sizeOf(entries.get(key) as V);
+    entries.delete(key);
+  };
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key) as V;
+      // Map keeps insertion order, so re-inserting marks the entry as newest.
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set(key, value) {
+      remove(key);
+      const size = sizeOf(value);
+      if (size > maxSize) return;
+      entries.set(key, value);
+      totalSize += size;
+      while (entries.size > options.maxEntries || totalSize > maxSize) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+    },
+    delete: remove,
+    keys: () => entries.keys(),
+  };
+}
@@ -0,0 +1,123 @@
+import { initWasm, Resvg } from "@resvg/resvg-wasm";
+import { decode as decodeAvif } from "@jsquash/avif";
+import { encode as encodePng } from "@jsquash/png";
+import { decode as decodeWebp, encode as encodeWebp } from "@jsquash/webp";
+import { decodeBase64, encodeBase64 } from "../encoding.ts";
+import { NowPlayingData } from "../types.ts";
+
+export type RasterFormat = "png" | "webp";
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: "image/png",
+  webp: "image/webp",
+};
+
+const WEBP_QUALITY = 90;
+// Longest output edge in pixels; larger requests are scaled down to fit.
+export const RASTER_MAX_EDGE = 2000;
+
+let resvgReady: Promise<void> | null = null;
+
+function ensureResvg(): Promise<void> {
+  if (!resvgReady) {
+    resvgReady = (async () => {
+      const wasmUrl = new URL(
+        import.meta.resolve("@resvg/resvg-wasm/index_bg.wasm"),
+      );
+      await initWasm(await Deno.readFile(wasmUrl));
+    })().catch((error) => {
+      resvgReady = null;
+      throw error;
+    });
+  }
+  return resvgReady;
+}
+
+async function decodeArt(
+  bytes: Uint8Array<ArrayBuffer>,
+  mimeType: string,
+): Promise<ImageData | null> {
+  switch (mimeType) {
+    case "image/webp":
+      return await decodeWebp(bytes.buffer);
+    case "image/avif":
+      return await decodeAvif(bytes.buffer);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert album art resvg cannot decode to PNG.
+ *
+ * resvg only reads JPEG and PNG images, so WebP and AVIF art would leave an
+ * empty frame in PNG and WebP cards.
+ *
+ * @param data Now playing payload with its art resolved.
+ * @returns Payload with JPEG or PNG art, or unchanged when decoding fails.
+ */
+export async function toRasterArt(
+  data: NowPlayingData | null,
+): Promise<NowPlayingData | null> {
+  const mimeType = data?.artMimeType;
+  if (
+    !data?.artBase64 || !mimeType || mimeType === "image/jpeg" ||
+    mimeType === "image/png"
+  ) {
+    return data;
+  }
+  try {
+    const image = await decodeArt(decodeBase64(data.artBase64), mimeType);
+    if (!image) return data;
+    const png = new Uint8Array(await encodePng(image));
+    return { ...data, artBase64: encodeBase64(png), artMimeType: "image/png" };
+  } catch (error) {
+    console.warn(`Failed to convert ${mimeType} art for rasterizing:`, error);
+    return data;
+  }
+}
+
+/**
+ * Rasterize SVG markup with the WASM build of resvg.
+ *
+ * SMIL animations are ignored by resvg, so callers should freeze them first.
+ * The zoom is reduced when the output would exceed RASTER_MAX_EDGE.
+ *
+ * @param svg SVG markup.
+ * @param format Output image format.
+ * @param scale Requested zoom factor applied to the SVG size.
+ * @param fontBuffers Raw font files to make available to text rendering.
+ * @param defaultFontFamily Family used when a requested family is missing.
+ * @returns Encoded image bytes.
+ */
+export async function rasterizeSvg(
+  svg: string,
+  format: RasterFormat,
+  scale: number,
+  fontBuffers: Uint8Array[],
+  defaultFontFamily: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  await ensureResvg();
+  const font = { fontBuffers, loadSystemFonts: false, defaultFontFamily };
+  const probe = new Resvg(svg, { font });
+  const longestEdge = Math.max(probe.width, probe.height);
+  probe.free();
+  const zoom = Math.min(scale, RASTER_MAX_EDGE / longestEdge);
+  const resvg = new Resvg(svg, { fitTo: { mode: "zoom", value: zoom }, font });
+  const image = resvg.render();
+  try {
+    if (format === "png") {
+      return new Uint8Array(image.asPng());
+    }
+    const encoded = await encodeWebp({
+      data: new Uint8ClampedArray(image.pixels),
+      width: image.width,
+      height: image.height,
+      colorSpace: "srgb",
+    } as ImageData, { quality: WEBP_QUALITY });
+    return new Uint8Array(encoded);
+  } finally {
+    image.free();
+    resvg.free();
+  }
+}
@@ -0,0 +1,141 @@
+import { sha256Hex } from "../encoding.ts";
+import { NowPlayingData, SvgConfig } from "../types.ts";
+import { resolveStaleAfterMs } from "../svg.ts";
+import { createLruMap } from "./lru.ts";
+
+const MAX_ENTRIES = 200;
+// Raster renders can be several megabytes, so bound the total size as well.
+const MAX_TOTAL_BYTES = 32 * 1024 * 1024;
+const PROGRESS_TTL_MS = 5000;
+const TIME_AGO_TTL_MS = 60 * 1000;
+
+export interface CachedRender {
+  body: string | Uint8Array<ArrayBuffer>;
+  etag: string;
+  lastModified: number;
+  expiresAt: number;
+}
+
+function entryBytes(entry: CachedRender): number {
+  return typeof entry.body === "string"
+    ? entry.body.length
+    : entry.body.byteLength;
+}
+
+const renderCache = createLruMap<string, CachedRender>({
+  maxEntries: MAX_ENTRIES,
+  maxSize: MAX_TOTAL_BYTES,
+  sizeOf: entryBytes,
+});
+
+function stableStringify(config: SvgConfig): string {
+  const entries = Object.entries(config).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+/**
+ * Build a cache key for a render.
+ *
+ * @param user User slug the data belongs to.
+ * @param versionstamp KV versionstamp of the now playing record.
+ * @param config Resolved config before font data is attached.
+ * @param variant Output variant (format and render options).
+ * @returns Cache key string.
+ */
+export function renderCacheKey(
+  user: string,
+  versionstamp: string | null,
+  config: SvgConfig,
+  variant: string,
+): string {
+  return `${user}\u0000${versionstamp ?? "empty"}\u0000${variant}\u0000${
+    stableStringify(config)
+  }`;
+}
+
+/**
+ * Work out how long a render stays accurate.
+ *
+ * Renders change without new data when the track goes stale, when the
+ * progress bar is extrapolated from the last update, or when a stale track
+ * shows how long ago it was played.
+ *
+ * @param data Rendered payload.
+ * @param config Config used for the render.
+ * @param now Render time.
+ * @returns Timestamp after which the render must be regenerated.
+ */
+export function renderExpiresAt(
+  data: NowPlayingData | null,
+  config: SvgConfig,
+  now: number = Date.now(),
+): number {
+  if (!data) return Number.POSITIVE_INFINITY;
+  const staleAt = data.updatedAt + resolveStaleAfterMs(config);
+  if (now >= staleAt) {
+    return config.idle === "ago"
+      ? now + TIME_AGO_TTL_MS
+      : Number.POSITIVE_INFINITY;
+  }
+  if (config.showProgress && data.status === "playing") {
+    return Math.min(staleAt, now + PROGRESS_TTL_MS);
+  }
+  return staleAt;
+}
+
+/**
+ * Compute a strong ETag for a response body.
+ *
+ * @param body Response body.
+ * @returns Quoted ETag value.
+ */
+export async function computeEtag(
+  body: string | Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const hex = await sha256Hex(body);
+  return `"${hex.slice(0, 32)}"`;
+}
+
+/**
+ * Check an If-None-Match header against an ETag.
+ *
+ * @param header Raw If-None-Match header.
+ * @param etag Current strong ETag.
+ * @returns True when the client copy is current.
+ */
+export function etagMatches(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header.split(",").some((candidate) =>
+    candidate.trim().replace(/^W\//, "") === etag
+  );
+}
+
+export function getCachedRender(
+  key: string,
+  now: number = Date.now(),
+): CachedRender | null {
+  const entry = renderCache.get(key);
+  if (!entry) return null;
+  if (now >= entry.expiresAt) {
+    renderCache.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+export function setCachedRender(key: string, entry: CachedRender): void {
+  renderCache.set(key, entry);
+}
+
+/**
+ * Drop cached renders for a user after their data changes.
+ *
+ * @param user User slug.
+ */
+export function invalidateRenderCache(user: string): void {
+  const prefix = `${user}\u0000`;
+  for (const key of renderCache.keys()) {
+    if (key.startsWith(prefix)) renderCache.delete(key);
+  }
+}
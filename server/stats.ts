@@ -0,0 +1,224 @@
+import { NowPlayingData, StatsItem } from "../types.ts";
+import { DAY_MS } from "./time.ts";
+
+const DAILY_RETENTION_DAYS = 30;
+const STATS_PRUNE_BATCH = 200;
+
+export type StatsRange = "7d" | "30d" | "all";
+export type StatsKind = "artist" | "album" | "track";
+
+export const STATS_KINDS: StatsKind[] = ["artist", "album", "track"];
+
+export const STATS_RANGES: Record<StatsRange, number | null> = {
+  "7d": 7,
+  "30d": 30,
+  "all": null,
+};
+
+export interface ListeningStats {
+  range: StatsRange;
+  artists: StatsItem[];
+  albums: StatsItem[];
+  tracks: StatsItem[];
+}
+
+function dayNumber(time: number): number {
+  return Math.floor(time / DAY_MS);
+}
+
+function isSameTrack(a: NowPlayingData, b: NowPlayingData): boolean {
+  return a.title === b.title && a.artist === b.artist && a.album === b.album;
+}
+
+function statIds(data: NowPlayingData): Record<StatsKind, string> {
+  return {
+    artist: data.artist,
+    album: JSON.stringify([data.albumArtist || data.artist, data.album]),
+    track: JSON.stringify([data.artist, data.title]),
+  };
+}
+
+function addCounters(
+  operation: Deno.AtomicOperation,
+  scopes: Deno.KvKey[],
+  data: NowPlayingData,
+  metric: "plays" | "ms",
+  amount: number,
+): void {
+  if (amount <= 0) return;
+  const value = BigInt(Math.round(amount));
+  for (const [kind, id] of Object.entries(statIds(data))) {
+    for (const scope of scopes) {
+      operation.sum([...scope, kind, id, metric], value);
+    }
+  }
+}
+
+/**
+ * Add stats counter updates for a new payload to an atomic operation.
+ *
+ * A play is counted when the track changes. Listening time is credited to the
+ * previous track for the time it spent playing before this update.
+ *
+ * @param operation Atomic operation that also stores the payload.
+ * @param prefix Stats key prefix for the user.
+ * @param previous Payload stored before this update.
+ * @param data Incoming payload.
+ * @param now Server time of the update.
+ */
+export function addStatsMutations(
+  operation: Deno.AtomicOperation,
+  prefix: Deno.KvKey,
+  previous: NowPlayingData | null,
+  data: NowPlayingData,
+  now: number,
+): void {
+  const scopes: Deno.KvKey[] = [
+    [...prefix, "all"],
+    [...prefix, "day", dayNumber(now)],
+  ];
+
+  if (previous && previous.status === "playing") {
+    const remaining = Math.max(0, previous.duration - previous.progress);
+    const listened = Math.max(
+      0,
+      Math.min(data.updatedAt - previous.updatedAt, remaining),
+    );
+    addCounters(operation, scopes, previous, "ms", listened);
+  }
+
+  if (!previous || !isSameTrack(previous, data)) {
+    addCounters(operation, scopes, data, "plays", 1);
+  }
+}
+
+/**
+ * Delete daily buckets that fall outside the longest window.
+ *
+ * @param kv KV handle.
+ * @param prefix Stats key prefix for the user.
+ * @param now Current time.
+ */
+export async function pruneStats(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  now: number,
+): Promise<void> {
+  const cutoff = dayNumber(now) - DAILY_RETENTION_DAYS;
+  const iter = kv.list({
+    prefix: [...prefix, "day"],
+    end: [...prefix, "day", cutoff],
+  }, { limit: STATS_PRUNE_BATCH });
+  for await (const entry of iter) {
+    await kv.delete(entry.key);
+  }
+}
+
+/**
+ * Work out when stats for a window next change without a new update.
+ *
+ * @param range Aggregated window.
+ * @param now Current time.
+ * @returns Start of the next UTC day for rolling windows, otherwise never.
+ */
+export function statsExpiresAt(
+  range: StatsRange,
+  now: number = Date.now(),
+): number {
+  return STATS_RANGES[range] === null
+    ? Number.POSITIVE_INFINITY
+    : (dayNumber(now) + 1) * DAY_MS;
+}
+
+function statsSelectors(
+  prefix: Deno.KvKey,
+  range: StatsRange,
+  kinds: StatsKind[],
+  now: number,
+): Deno.KvListSelector[] {
+  const days = STATS_RANGES[range];
+  const allKinds = STATS_KINDS.every((kind) => kinds.includes(kind));
+  if (days === null) {
+    return allKinds
+      ? [{ prefix: [...prefix, "all"] }]
+      : kinds.map((kind) => ({ prefix: [...prefix, "all", kind] }));
+  }
+  const today = dayNumber(now);
+  if (allKinds) {
+    return [{
+      prefix: [...prefix, "day"],
+      start: [...prefix, "day", today - days + 1],
+    }];
+  }
+  // Kinds sit below the day in the key, so read each day's bucket directly.
+  return Array.from({ length: days }, (_, offset) => today - offset)
+    .flatMap((day) =>
+      kinds.map((kind) => ({ prefix: [...prefix, "day", day, kind] }))
+    );
+}
+
+/**
+ * Aggregate listening stats over a time window.
+ *
+ * @param kv KV handle.
+ * @param prefix Stats key prefix for the user.
+ * @param range Window to aggregate.
+ * @param limit Maximum items per list.
+ * @param kinds Lists to read; the others come back empty.
+ * @param now Current time.
+ * @returns Top artists, albums and tracks ordered by plays.
+ */
+export async function getStats(
+  kv: Deno.Kv,
+  prefix: Deno.KvKey,
+  range: StatsRange,
+  limit: number,
+  kinds: StatsKind[] = STATS_KINDS,
+  now: number = Date.now(),
+): Promise<ListeningStats> {
+  const totals: Record<StatsKind, Map<string, StatsItem>> = {
+    artist: new Map(),
+    album: new Map(),
+    track: new Map(),
+  };
+
+  for (const selector of statsSelectors(prefix, range, kinds, now)) {
+    for await (const entry of kv.list<Deno.KvU64>(selector)) {
+      const [kind, id, metric] = entry.key.slice(-3) as [
+        StatsKind,
+        string,
+        "plays" | "ms",
+      ];
+      const bucket = totals[kind];
+      if (!bucket) continue;
+      let item = bucket.get(id);
+      if (!item) {
+        if (kind === "artist") {
+          item = { name: id, plays: 0, listenedMs: 0 };
+        } else {
+          const [artist, name] = JSON.parse(id) as [string, string];
+          item = { name, artist, plays: 0, listenedMs: 0 };
+        }
+        bucket.set(id, item);
+      }
+      const amount = Number(entry.value.value);
+      if (metric === "plays") {
+        item.plays += amount;
+      } else {
+        item.listenedMs += amount;
+      }
+    }
+  }
+
+  const top = (items: Map<string, StatsItem>): StatsItem[] =>
+    [...items.values()]
+      .sort((a, b) => b.plays - a.plays || b.listenedMs - a.listenedMs)
+      .slice(0, limit);
+
+  return {
+    range,
+    artists: top(totals.artist),
+    albums: top(totals.album),
+    tracks: top(totals.track),
+  };
+}
@@ -0,0 +1,85 @@
+import { decodeBase64 } from "../encoding.ts";
+import { NowPlayingData } from "../types.ts";
+import { hashArt } from "./art.ts";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const RETRY_MS = 5000;
+
+export type NowPlayingEvent = Omit<NowPlayingData, "artBase64"> & {
+  artHash: string | null;
+};
+
+/**
+ * Strip the art blob from a payload for streaming.
+ *
+ * @param data Stored now playing payload.
+ * @returns Compact event payload with an art hash instead of the image.
+ */
+export async function toNowPlayingEvent(
+  data: NowPlayingData,
+): Promise<NowPlayingEvent> {
+  const { artBase64, artHash, ...rest } = data;
+  if (artHash || !artBase64) return { ...rest, artHash: artHash ?? null };
+  return { ...rest, artHash: await hashArt(decodeBase64(artBase64)) };
+}
+
+/**
+ * Stream now playing changes as Server-Sent Events.
+ *
+ * Uses KV watch so updates stored by any isolate are delivered. Event ids are
+ * KV versionstamps; a client reconnecting with the current id skips the
+ * initial replay.
+ *
+ * @param kv KV handle.
+ * @param key KV key of the now playing record.
+ * @param lastEventId Last-Event-ID sent by the client, if any.
+ * @returns Byte stream of SSE frames.
+ */
+export function createNowPlayingStream(
+  kv: Deno.Kv,
+  key: Deno.KvKey,
+  lastEventId: string | null,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const watcher = kv.watch<[NowPlayingData]>([key]).getReader();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`));
+      heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+    },
+    async pull(controller) {
+      while (true) {
+        const { value, done } = await watcher.read();
+        if (done) {
+          clearInterval(heartbeat);
+          controller.close();
+          return;
+        }
+        const [entry] = value;
+        if (entry.versionstamp === null) continue;
+        if (entry.versionstamp === lastEventId) {
+          lastEventId = null;
+          continue;
+        }
+        lastEventId = null;
+        const payload = entry.value
+          ? await toNowPlayingEvent(entry.value)
+          : null;
+        controller.enqueue(encoder.encode(
+          `id: ${entry.versionstamp}\nevent: now-playing\ndata: ${
+            JSON.stringify(payload)
+          }\n\n`,
+        ));
+        return;
+      }
+    },
+    async cancel() {
+      clearInterval(heartbeat);
+      await watcher.cancel();
+    },
+  });
+}
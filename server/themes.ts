@@ -0,0 +1,296 @@
+import { SvgConfig } from "../types.ts";
+import { VISUALIZER_STYLES } from "../svg.ts";
+
+export const THEME_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+
+const THEME_KV_PREFIX = ["themes"];
+const THEME_CACHE_TTL_MS = 60 * 1000;
+const themeCache = new Map<string, { config: SvgConfig; loadedAt: number }>();
+
+export interface ThemeSummary {
+  name: string;
+  source: "kv" | "bundled";
+}
+
+type FieldCheck = (input: unknown) => boolean;
+
+const isNumber: FieldCheck = (input) =>
+  typeof input === "number" && Number.isFinite(input);
+const isString: FieldCheck = (input) =>
+  typeof input === "string" && input.length > 0;
+const isBoolean: FieldCheck = (input) => typeof input === "boolean";
+const oneOf = (...values: string[]): FieldCheck => (input) =>
+  typeof input === "string" && values.includes(input);
+
+const SCHEME_COLOR_FIELDS = [
+  "cardBackground",
+  "cardBorder",
+  "textPrimary",
+  "textSecondary",
+  "textMuted",
+];
+// Light colors are blended with album colors, so they must be hex.
+const isHexColor: FieldCheck = (input) =>
+  typeof input === "string" && /^#[0-9a-f]{6}$/i.test(input);
+const isSchemeColors: FieldCheck = (input) =>
+  Boolean(input) && typeof input === "object" && !Array.isArray(input) &&
+  Object.entries(input as Record<string, unknown>).every(([field, value]) =>
+    SCHEME_COLOR_FIELDS.includes(field) && isHexColor(value)
+  );
+
+const REQUIRED_FIELDS: Record<string, FieldCheck> = {
+  width: isNumber,
+  height: isNumber,
+  cardBackground: isString,
+  cardBorder: isString,
+  textPrimary: isString,
+  textSecondary: isString,
+  textMuted: isString,
+  albumSize: isNumber,
+  borderRadius: isNumber,
+  albumPosition: oneOf("left", "right", "top"),
+  textAlign: oneOf("left", "center", "right"),
+  showStatus: isBoolean,
+  showTitle: isBoolean,
+  showArtist: isBoolean,
+  showAlbum: isBoolean,
+  fontTitleFamily: isString,
+  fontBodyFamily: isString,
+  fontTitleFile: isString,
+  fontBodyFile: isString,
+  fontFallback: isString,
+};
+
+const OPTIONAL_FIELDS: Record<string, FieldCheck> = {
+  layout: oneOf("card", "badge"),
+  showProgress: isBoolean,
+  showThumbnail: isBoolean,
+  light: isSchemeColors,
+  scheme: oneOf("light", "dark", "auto"),
+  visualizer: oneOf(...VISUALIZER_STYLES),
+  staleAfterMinutes: isNumber,
+  idle: oneOf("last", "dim", "ago", "hide"),
+  idleMessage: isString,
+  contrast: oneOf("aa", "strict", "off"),
+};
+
+const MAX_EXTENDS_DEPTH = 8;
+
+/** Theme document as written: any subset of SvgConfig plus a parent. */
+export type ThemeFile = Partial<SvgConfig> & { extends?: string };
+
+export type ThemeResolution =
+  | { ok: true; config: SvgConfig }
+  | { ok: false; errors: string[] };
+
+/**
+ * List the fields that keep a value from being a complete SvgConfig.
+ *
+ * @param value Merged theme object.
+ * @returns Human readable problems, empty when the config is valid.
+ */
+export function findThemeProblems(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["theme must be a JSON object"];
+  }
+  const config = value as Record<string, unknown>;
+  const missing = Object.keys(REQUIRED_FIELDS).filter((field) =>
+    config[field] === undefined
+  );
+  const invalid = Object.entries({ ...REQUIRED_FIELDS, ...OPTIONAL_FIELDS })
+    .filter(([field, check]) =>
+      config[field] !== undefined && !check(config[field])
+    )
+    .map(([field]) => field);
+  return [
+    ...(missing.length > 0 ? [`missing: ${missing.join(", ")}`] : []),
+    ...(invalid.length > 0 ? [`invalid: ${invalid.join(", ")}`] : []),
+  ];
+}
+
+/**
+ * Check that a value is a complete SvgConfig.
+ *
+ * @param value Parsed theme JSON.
+ * @returns True when every required field is present and well-typed.
+ */
+export function isSvgConfig(value: unknown): value is SvgConfig {
+  return findThemeProblems(value).length === 0;
+}
+
+async function loadBundledTheme(name: string): Promise<ThemeFile | null> {
+  try {
+    const themeUrl = new URL(`../themes/${name}.json`, import.meta.url);
+    const raw = await Deno.readTextFile(themeUrl);
+    return JSON.parse(raw) as ThemeFile;
+  } catch (error) {
+    console.warn(`Failed to load theme: ${name}`, error);
+    return null;
+  }
+}
+
+async function loadThemeFile(
+  kv: Deno.Kv,
+  name: string,
+): Promise<ThemeFile | null> {
+  const stored = await kv.get<ThemeFile>([...THEME_KV_PREFIX, name]);
+  return stored.value ?? await loadBundledTheme(name);
+}
+
+/**
+ * Merge a theme with its `extends` chain and validate the result.
+ *
+ * @param kv KV handle.
+ * @param name Theme name, used for cycle detection and messages.
+ * @param file Theme document to resolve.
+ * @returns Merged config or the problems found.
+ */
+export async function resolveTheme(
+  kv: Deno.Kv,
+  name: string,
+  file: ThemeFile,
+): Promise<ThemeResolution> {
+  const chain = [name];
+  const layers: ThemeFile[] = [file];
+  let current = file;
+
+  while (current.extends !== undefined) {
+    const parent = current.extends;
+    if (typeof parent !== "string" || !THEME_NAME_PATTERN.test(parent)) {
+      return { ok: false, errors: [`invalid extends in ${chain.at(-1)}`] };
+    }
+    if (chain.includes(parent)) {
+      return {
+        ok: false,
+        errors: [`extends cycle: ${[...chain, parent].join(" -> ")}`],
+      };
+    }
+    if (chain.length > MAX_EXTENDS_DEPTH) {
+      return {
+        ok: false,
+        errors: [`extends chain deeper than ${MAX_EXTENDS_DEPTH}`],
+      };
+    }
+    const parentFile = await loadThemeFile(kv, parent);
+    if (!parentFile) {
+      return { ok: false, errors: [`unknown parent theme: ${parent}`] };
+    }
+    chain.push(parent);
+    layers.unshift(parentFile);
+    current = parentFile;
+  }
+
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    const { extends: _parent, ...fields } = layer;
+    Object.assign(merged, fields);
+  }
+  const problems = findThemeProblems(merged);
+  return problems.length > 0
+    ? { ok: false, errors: problems }
+    : { ok: true, config: merged as unknown as SvgConfig };
+}
+
+/**
+ * Load a theme, preferring KV-stored themes over bundled files.
+ *
+ * Results are cached briefly so changes made from other isolates show up
+ * without a redeploy.
+ *
+ * @param kv KV handle.
+ * @param name Theme name.
+ * @returns Theme config or null when unknown/invalid.
+ */
+export async function loadTheme(
+  kv: Deno.Kv,
+  name: string,
+): Promise<SvgConfig | null> {
+  const cached = themeCache.get(name);
+  if (cached && Date.now() - cached.loadedAt < THEME_CACHE_TTL_MS) {
+    return cached.config;
+  }
+
+  if (!THEME_NAME_PATTERN.test(name)) {
+    return null;
+  }
+
+  const file = await loadThemeFile(kv, name);
+  if (!file) return null;
+  const resolved = await resolveTheme(kv, name, file);
+  if (!resolved.ok) {
+    console.warn(
+      `Theme schema invalid: ${name} (${resolved.errors.join("; ")})`,
+    );
+    return null;
+  }
+  themeCache.set(name, { config: resolved.config, loadedAt: Date.now() });
+  return resolved.config;
+}
+
+export async function getStoredTheme(
+  kv: Deno.Kv,
+  name: string,
+): Promise<ThemeFile | null> {
+  const stored = await kv.get<ThemeFile>([...THEME_KV_PREFIX, name]);
+  return stored.value;
+}
+
+/**
+ * Save a theme to KV.
+ *
+ * @param kv KV handle.
+ * @param name Theme name.
+ * @param file Theme document that resolves to a valid config.
+ * @param overwrite Replace an existing stored theme when true.
+ * @returns False when the theme exists and overwrite is disabled.
+ */
+export async function saveTheme(
+  kv: Deno.Kv,
+  name: string,
+  file: ThemeFile,
+  overwrite: boolean,
+): Promise<boolean> {
+  const key = [...THEME_KV_PREFIX, name];
+  const operation = kv.atomic();
+  if (!overwrite) {
+    operation.check({ key, versionstamp: null });
+  }
+  const result = await operation.set(key, file).commit();
+  // Children resolve through this theme, so drop every cached resolution.
+  themeCache.clear();
+  return result.ok;
+}
+
+export async function deleteTheme(kv: Deno.Kv, name: string): Promise<boolean> {
+  const key = [...THEME_KV_PREFIX, name];
+  const existing = await kv.get(key);
+  if (existing.value === null) return false;
+  await kv.delete(key);
+  themeCache.clear();
+  return true;
+}
+
+/**
+ * List stored and bundled themes.
+ *
+ * @param kv KV handle.
+ * @returns Theme names with the source that wins for each.
+ */
+export async function listThemes(kv: Deno.Kv): Promise<ThemeSummary[]> {
+  const themes = new Map<string, ThemeSummary>();
+  try {
+    const themesUrl = new URL("../themes/", import.meta.url);
+    for await (const entry of Deno.readDir(themesUrl)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      const name = entry.name.slice(0, -".json".length);
+      themes.set(name, { name, source: "bundled" });
+    }
+  } catch (error) {
+    console.warn("Failed to list bundled themes", error);
+  }
+  for await (const entry of kv.list({ prefix: THEME_KV_PREFIX })) {
+    const name = String(entry.key[THEME_KV_PREFIX.length]);
+    themes.set(name, { name, source: "kv" });
+  }
+  return [...themes.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
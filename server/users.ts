@@ -0,0 +1,145 @@
+import { sha256Hex, toHex } from "../encoding.ts";
+
+export const DEFAULT_USER = "default";
+
+const USER_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+const PROFILE_PREFIX = ["user-profiles"];
+const USER_DATA_PREFIX = ["users"];
+const API_KEY_BYTES = 32;
+
+export interface UserProfile {
+  slug: string;
+  keyHash: string;
+  createdAt: number;
+}
+
+/**
+ * Normalize a user slug from a URL or request body.
+ *
+ * @param value Raw slug.
+ * @returns Lowercase slug, or null when invalid.
+ */
+export function parseUserSlug(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  return USER_SLUG_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Build a KV key scoped to a user.
+ *
+ * The default user keeps the original top-level keys so single-user
+ * deployments keep their data.
+ *
+ * @param user User slug.
+ * @param parts Key parts below the user scope.
+ * @returns Scoped KV key.
+ */
+export function userKey(user: string, ...parts: Deno.KvKeyPart[]): Deno.KvKey {
+  return user === DEFAULT_USER ? parts : [...USER_DATA_PREFIX, user, ...parts];
+}
+
+/**
+ * Hash an API key for storage.
+ *
+ * @param apiKey Plaintext key.
+ * @returns Hex encoded SHA-256 digest.
+ */
+export function hashApiKey(apiKey: string): Promise<string> {
+  return sha256Hex(apiKey);
+}
+
+/**
+ * Compare two secrets without short-circuiting on the first mismatch.
+ *
+ * @param provided Secret from the request.
+ * @param expected Known secret.
+ * @returns True when both match.
+ */
+export function secretsMatch(provided: string, expected: string): boolean {
+  if (provided.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < provided.length; i++) {
+    diff |= provided.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function getUser(
+  kv: Deno.Kv,
+  slug: string,
+): Promise<UserProfile | null> {
+  const result = await kv.get<UserProfile>([...PROFILE_PREFIX, slug]);
+  return result.value;
+}
+
+export async function listUsers(kv: Deno.Kv): Promise<UserProfile[]> {
+  const users: UserProfile[] = [];
+  for await (
+    const entry of kv.list<UserProfile>({ prefix: PROFILE_PREFIX })
+  ) {
+    users.push(entry.value);
+  }
+  return users;
+}
+
+/**
+ * Create a user profile with a freshly generated API key.
+ *
+ * @param kv KV handle.
+ * @param slug Validated user slug.
+ * @returns The profile and plaintext key, or null if the slug is taken.
+ */
+export async function createUser(
+  kv: Deno.Kv,
+  slug: string,
+): Promise<{ profile: UserProfile; apiKey: string } | null> {
+  if (slug === DEFAULT_USER) return null;
+  const apiKey = toHex(crypto.getRandomValues(new Uint8Array(API_KEY_BYTES)));
+  const profile: UserProfile = {
+    slug,
+    keyHash: await hashApiKey(apiKey),
+    createdAt: Date.now(),
+  };
+  const key = [...PROFILE_PREFIX, slug];
+  const result = await kv.atomic()
+    .check({ key, versionstamp: null })
+    .set(key, profile)
+    .commit();
+  return result.ok ? { profile, apiKey } : null;
+}
+
+/**
+ * Revoke a user and delete everything stored under their scope.
+ *
+ * @param kv KV handle.
+ * @param slug User slug.
+ * @returns True when the user existed.
+ */
+export async function revokeUser(kv: Deno.Kv, slug: string): Promise<boolean> {
+  const existing = await getUser(kv, slug);
+  if (!existing) return false;
+  await kv.delete([...PROFILE_PREFIX, slug]);
+  for await (const entry of kv.list({ prefix: [...USER_DATA_PREFIX, slug] })) {
+    await kv.delete(entry.key);
+  }
+  return true;
+}
+
+/**
+ * Check a bearer token against a user's stored key hash.
+ *
+ * @param kv KV handle.
+ * @param slug User slug.
+ * @param token Plaintext token from the request.
+ * @returns True when the token belongs to the user.
+ */
+export async function verifyUserKey(
+  kv: Deno.Kv,
+  slug: string,
+  token: string,
+): Promise<boolean> {
+  const profile = await getUser(kv, slug);
+  if (!profile) return false;
+  return secretsMatch(await hashApiKey(token), profile.keyHash);
+}
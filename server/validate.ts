@@ -0,0 +1,318 @@
+import { ColorPalette, NowPlayingData, PaletteSwatch } from "../types.ts";
+
+export const MAX_PAYLOAD_BYTES = 256 * 1024;
+// Deno KV rejects values larger than 64 KiB.
+export const MAX_RECORD_BYTES = 64 * 1024;
+const MAX_TEXT_LENGTH = 256;
+const MAX_TRACK_NUMBER_LENGTH = 16;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const MAX_SWATCHES = 8;
+const PALETTE_ROLES = ["vibrant", "muted", "light", "dark"] as const;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+export const ART_HASH_PATTERN = /^[0-9a-f]{64}$/;
+const ART_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif"];
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+type Fields = Record<string, unknown>;
+
+function isFiniteNumber(input: unknown): input is number {
+  return typeof input === "number" && Number.isFinite(input);
+}
+
+function clampText(text: string, maxLength: number): string {
+  const trimmed = text.trim();
+  // Count code points so a cut never leaves half of a surrogate pair.
+  const codePoints = Array.from(trimmed);
+  return codePoints.length > maxLength
+    ? codePoints.slice(0, maxLength).join("")
+    : trimmed;
+}
+
+function readText(
+  fields: Fields,
+  field: string,
+  errors: FieldError[],
+  options: { required: boolean; maxLength: number },
+): string {
+  const value = fields[field];
+  if (typeof value !== "string") {
+    errors.push({ field, message: "must be a string" });
+    return "";
+  }
+  const text = clampText(value, options.maxLength);
+  if (options.required && text.length === 0) {
+    errors.push({ field, message: "must not be empty" });
+  }
+  return text;
+}
+
+function readNonNegative(
+  fields: Fields,
+  field: string,
+  errors: FieldError[],
+): number {
+  const value = fields[field];
+  if (!isFiniteNumber(value) || value < 0) {
+    errors.push({ field, message: "must be a non-negative number" });
+    return 0;
+  }
+  return value;
+}
+
+/**
+ * Identify an image from its leading bytes.
+ *
+ * @param bytes Image bytes; only the first 12 are read.
+ * @returns MIME type, or null when not a JPEG, PNG, WebP or AVIF image.
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number): string =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (
+    bytes[0] === 0x89 && ascii(1, 4) === "PNG" &&
+    bytes[4] === 0x0d && bytes[5] === 0x0a
+  ) {
+    return "image/png";
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (ascii(4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(8, 12))) {
+    return "image/avif";
+  }
+  return null;
+}
+
+function detectBase64ImageType(base64: string): string | null {
+  let header: string;
+  try {
+    header = atob(base64.slice(0, 16));
+  } catch (_error) {
+    return null;
+  }
+  return detectImageType(Uint8Array.from(header, (char) => char.charCodeAt(0)));
+}
+
+function validateArt(value: unknown, errors: FieldError[]): string | null {
+  if (value === null || value === undefined) return null;
+  const field = "artBase64";
+  if (typeof value !== "string" || value.length === 0) {
+    errors.push({ field, message: "must be a base64 string or null" });
+    return null;
+  }
+  if (value.length % 4 !== 0 || !BASE64_PATTERN.test(value)) {
+    errors.push({ field, message: "must be valid base64" });
+    return null;
+  }
+  if (!detectBase64ImageType(value)) {
+    errors.push({ field, message: "must be a JPEG, PNG, WebP or AVIF image" });
+    return null;
+  }
+  return value;
+}
+
+function validateArtHash(value: unknown, errors: FieldError[]): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string" || !ART_HASH_PATTERN.test(value)) {
+    errors.push({
+      field: "artHash",
+      message: "must be a lowercase hex SHA-256 digest or null",
+    });
+    return null;
+  }
+  return value;
+}
+
+function validateArtMimeType(
+  value: unknown,
+  errors: FieldError[],
+): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string" || !ART_MIME_TYPES.includes(value)) {
+    errors.push({
+      field: "artMimeType",
+      message: `must be one of ${ART_MIME_TYPES.join(", ")} or null`,
+    });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Estimate how many bytes a record takes up in Deno KV.
+ *
+ * UTF-8 encoded JSON is never smaller than KV's own serialization, so a
+ * record within MAX_RECORD_BYTES by this measure can always be stored.
+ *
+ * @param value Record to store.
+ * @returns Upper bound of the stored size in bytes.
+ */
+export function estimateRecordBytes(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).byteLength;
+}
+
+/**
+ * Validate a color palette payload.
+ *
+ * @param value Untrusted palette value.
+ * @param path Field path prefix used in error messages.
+ * @returns Normalized palette or field-level errors.
+ */
+export function validateColorPalette(
+  value: unknown,
+  path = "colors",
+): ValidationResult<ColorPalette> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      ok: false,
+      errors: [{ field: path, message: "must be an object or null" }],
+    };
+  }
+  const fields = value as Fields;
+  const errors: FieldError[] = [];
+  const readColor = (value: unknown, field: string): string => {
+    if (typeof value !== "string" || !HEX_COLOR_PATTERN.test(value)) {
+      errors.push({ field, message: "must be a #rrggbb hex color" });
+      return "";
+    }
+    return value.toLowerCase();
+  };
+  const palette: ColorPalette = {
+    dominant: readColor(fields.dominant, `${path}.dominant`),
+    accent: readColor(fields.accent, `${path}.accent`),
+    highlight: readColor(fields.highlight, `${path}.highlight`),
+  };
+  // Roles and swatches are optional so payloads from older pollers still
+  // validate.
+  for (const role of PALETTE_ROLES) {
+    if (fields[role] === undefined) continue;
+    palette[role] = readColor(fields[role], `${path}.${role}`);
+  }
+  if (fields.swatches !== undefined) {
+    if (
+      !Array.isArray(fields.swatches) ||
+      fields.swatches.length > MAX_SWATCHES
+    ) {
+      errors.push({
+        field: `${path}.swatches`,
+        message: `must be an array of at most ${MAX_SWATCHES} swatches`,
+      });
+    } else {
+      palette.swatches = fields.swatches.map(
+        (swatch: unknown, index): PaletteSwatch => {
+          const field = `${path}.swatches.${index}`;
+          const entry = swatch && typeof swatch === "object"
+            ? swatch as Fields
+            : {};
+          const population = entry.population;
+          if (!isFiniteNumber(population) || population < 0 || population > 1) {
+            errors.push({
+              field: `${field}.population`,
+              message: "must be a number between 0 and 1",
+            });
+          }
+          return {
+            color: readColor(entry.color, `${field}.color`),
+            population: isFiniteNumber(population) ? population : 0,
+          };
+        },
+      );
+    }
+  }
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: palette };
+}
+
+/**
+ * Validate a now playing payload from the poller.
+ *
+ * Strings are trimmed and clamped; unknown fields are dropped.
+ *
+ * @param value Untrusted parsed JSON body.
+ * @returns Normalized payload or field-level errors.
+ */
+export function validateNowPlayingData(
+  value: unknown,
+): ValidationResult<NowPlayingData> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {
+      ok: false,
+      errors: [{ field: "", message: "must be a JSON object" }],
+    };
+  }
+  const fields = value as Fields;
+  const errors: FieldError[] = [];
+  const text = { required: false, maxLength: MAX_TEXT_LENGTH };
+
+  const title = readText(fields, "title", errors, {
+    required: true,
+    maxLength: MAX_TEXT_LENGTH,
+  });
+  const artist = readText(fields, "artist", errors, text);
+  const album = readText(fields, "album", errors, text);
+  const albumArtist = readText(fields, "albumArtist", errors, text);
+  const trackNumber = readText(fields, "trackNumber", errors, {
+    required: false,
+    maxLength: MAX_TRACK_NUMBER_LENGTH,
+  });
+  const duration = readNonNegative(fields, "duration", errors);
+  const progress = readNonNegative(fields, "progress", errors);
+  const updatedAt = readNonNegative(fields, "updatedAt", errors);
+
+  const status = fields.status;
+  if (status !== "playing" && status !== "paused") {
+    errors.push({ field: "status", message: 'must be "playing" or "paused"' });
+  }
+
+  const artBase64 = validateArt(fields.artBase64, errors);
+  const artHash = validateArtHash(fields.artHash, errors);
+  // Inline art is sniffed, so only hash references rely on the declared type.
+  const artMimeType = artBase64
+    ? detectBase64ImageType(artBase64)
+    : validateArtMimeType(fields.artMimeType, errors);
+
+  let colors: ColorPalette | null = null;
+  if (fields.colors !== null && fields.colors !== undefined) {
+    const result = validateColorPalette(fields.colors);
+    if (result.ok) {
+      colors = result.value;
+    } else {
+      errors.push(...result.errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title,
+      artist,
+      album,
+      albumArtist,
+      trackNumber,
+      duration,
+      progress,
+      status: status as NowPlayingData["status"],
+      artBase64,
+      artHash,
+      artMimeType,
+      colors,
+      updatedAt,
+    },
+  };
+}
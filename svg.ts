@@ -1 +1,11 @@
-export { generateNowPlayingSvg } from "./svg/index.ts";
+export { generateNowPlayingSvg, STALE_AFTER_MS } from "./svg/index.ts";
+export { freezeAnimations } from "./svg/freeze.ts";
+export { generateTopArtistsSvg } from "./svg/top-artists.ts";
+export { resolveStaticScheme } from "./svg/scheme.ts";
+export { extractSvgText } from "./svg/text.ts";
+export { MIN_CARD_HEIGHT } from "./svg/layout.ts";
+export { resolveStaleAfterMs } from "./svg/state.ts";
+export {
+  isVisualizerStyle,
+  VISUALIZER_STYLES,
+} from "./svg/visualizers/index.ts";
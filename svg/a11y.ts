@@ -0,0 +1,77 @@
+import { NowPlayingData, SvgConfig } from "../types.ts";
+import { freezeAnimations } from "./freeze.ts";
+import {
+  DEFAULT_IDLE_MESSAGE,
+  describeLastPlayed,
+  PlaybackState,
+} from "./state.ts";
+import { escapeXml } from "./text.ts";
+
+/** Swap looping layers for their frozen copies when motion is reduced. */
+export const REDUCED_MOTION_CSS = ".np-reduced{display:none}" +
+  "@media (prefers-reduced-motion: reduce){" +
+  ".np-motion{display:none}.np-reduced{display:inline}}";
+
+/**
+ * Build the accessible name for a now playing card.
+ *
+ * @param data Latest now playing payload or null for empty state.
+ * @param state Playback state flags for the payload.
+ * @param config Visual configuration, for the idle message and label.
+ * @param now Render time.
+ * @returns Sentence such as "Now playing: Title by Artist from Album".
+ */
+export function describeNowPlaying(
+  data: NowPlayingData | null,
+  state: PlaybackState,
+  config: SvgConfig,
+  now: number = Date.now(),
+): string {
+  if (!data || !state.hasTrack) {
+    return config.idleMessage || DEFAULT_IDLE_MESSAGE;
+  }
+  const track = [
+    data.title,
+    data.artist ? `by ${data.artist}` : "",
+    data.album ? `from ${data.album}` : "",
+  ].filter(Boolean).join(" ");
+  if (state.isStale) {
+    return `${describeLastPlayed(data, config, now)}: ${track}`;
+  }
+  return `Now playing: ${track}${state.isPaused ? " (paused)" : ""}`;
+}
+
+/**
+ * Render the `<title>` and `<desc>` elements referenced by `aria-labelledby`.
+ *
+ * @param label Accessible name.
+ * @param description Longer description of the graphic.
+ * @returns SVG markup for the first children of the root element.
+ */
+export function generateAccessibleText(
+  label: string,
+  description: string,
+): string {
+  return `<title id="np-title">${escapeXml(label)}</title>
+  <desc id="np-desc">${escapeXml(description)}</desc>`;
+}
+
+/**
+ * Pair animated markup with a still copy for reduced-motion viewers.
+ *
+ * The still copy is hidden by REDUCED_MOTION_CSS unless the viewer asks for
+ * reduced motion, in which case the animated copy is hidden instead. Pass an
+ * empty still copy to hide large decorative layers rather than duplicate
+ * them.
+ *
+ * @param markup Markup containing looping SMIL animations.
+ * @param still Replacement markup; defaults to the first animation frame.
+ * @returns Markup containing both variants.
+ */
+export function withReducedMotion(
+  markup: string,
+  still: string = freezeAnimations(markup, 0),
+): string {
+  const reduced = still ? `<g class="np-reduced">${still}</g>` : "";
+  return `<g class="np-motion">${markup}</g>${reduced}`;
+}
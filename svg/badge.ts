@@ -0,0 +1,132 @@
+import { defaultSvgConfig, NowPlayingData, SvgConfig } from "../types.ts";
+import {
+  describeNowPlaying,
+  generateAccessibleText,
+  REDUCED_MOTION_CSS,
+  withReducedMotion,
+} from "./a11y.ts";
+import { generateFontFaceCss, resolveFontStacks } from "./fonts.ts";
+import {
+  generateSchemeCss,
+  resolveSchemePalette,
+  resolveStaticScheme,
+} from "./scheme.ts";
+import {
+  formatTimeAgo,
+  resolvePlaybackState,
+  resolveStaleAfterMs,
+} from "./state.ts";
+import { escapeXml, estimateTextWidth, truncateText } from "./text.ts";
+
+const BADGE_HEIGHT = 24;
+const BADGE_FONT_SIZE = 12;
+const BADGE_MAX_CHARS = 60;
+const THUMB_SIZE = 18;
+
+/**
+ * Build a single-line badge in the style of shields.io.
+ *
+ * @param data Latest now playing payload or null for empty state.
+ * @param config Visual configuration overrides.
+ * @param now Render time, for "last played" text.
+ * @returns SVG markup as a string.
+ */
+export function generateBadgeSvg(
+  data: NowPlayingData | null,
+  config: SvgConfig = defaultSvgConfig,
+  now: number = Date.now(),
+): string {
+  const playbackState = resolvePlaybackState(
+    data,
+    resolveStaleAfterMs(config),
+    now,
+  );
+  const { isPlaying, isStale, hasTrack } = playbackState;
+  const isDimmed = isStale && config.idle === "dim";
+  const palette = resolveSchemePalette(
+    data?.colors,
+    config,
+    resolveStaticScheme(config),
+  );
+  const fonts = resolveFontStacks(config);
+  const css = generateFontFaceCss(config) +
+    generateSchemeCss(data?.colors, config) + REDUCED_MOTION_CSS;
+  const styleBlock = css ? `<style>${css}</style>` : "";
+
+  const ago = data && isStale && config.idle === "ago"
+    ? ` · ${formatTimeAgo(data.updatedAt, now)}`
+    : "";
+  const label = data && hasTrack
+    ? truncateText(`${data.artist} – ${data.title}`, BADGE_MAX_CHARS) + ago
+    : config.idleMessage || "Nothing playing";
+  const showThumbnail = Boolean(
+    config.showThumbnail !== false && data && hasTrack && data.artBase64,
+  );
+  const artMimeType = data?.artMimeType || "image/jpeg";
+  const radius = BADGE_HEIGHT / 2;
+  const dotX = radius;
+  const thumbX = dotX + 10;
+  const textX = showThumbnail ? thumbX + THUMB_SIZE + 6 : dotX + 10;
+  const textWidth = estimateTextWidth(
+    label,
+    BADGE_FONT_SIZE,
+    config.fontBodyMetrics,
+  );
+  const width = Math.ceil(textX + textWidth + radius);
+  const thumbY = (BADGE_HEIGHT - THUMB_SIZE) / 2;
+  const dotClass = isPlaying ? "np-fill-highlight" : "np-fill-muted";
+  const dotColor = isPlaying ? palette.highlight : palette.textMuted;
+  const textClass = hasTrack && !isDimmed ? "np-fill-primary" : "np-fill-muted";
+  const textColor = hasTrack && !isDimmed
+    ? palette.textPrimary
+    : palette.textMuted;
+  const dotMarkup =
+    `<circle cx="${dotX}" cy="${radius}" r="4" fill="${dotColor}" class="${dotClass}">${
+      isPlaying
+        ? `<animate attributeName="opacity" values="1;0.35;1" dur="2s" repeatCount="indefinite" />`
+        : ""
+    }</circle>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="${width}" height="${BADGE_HEIGHT}" viewBox="0 0 ${width} ${BADGE_HEIGHT}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" role="img" aria-labelledby="np-title np-desc">
+  ${
+    generateAccessibleText(
+      describeNowPlaying(data, playbackState, config, now),
+      "Now playing badge with a status dot and the artist and title.",
+    )
+  }
+  <defs>
+    ${styleBlock}
+    <linearGradient id="badgeGradient" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="${palette.mid}" class="np-stop-mid" />
+      <stop offset="100%" stop-color="${palette.base}" class="np-stop-base" />
+    </linearGradient>
+    <clipPath id="thumbClip">
+      <rect x="${thumbX}" y="${thumbY}" width="${THUMB_SIZE}" height="${THUMB_SIZE}" rx="4" />
+    </clipPath>
+  </defs>
+
+  <g aria-hidden="true">
+  <rect x="0.5" y="0.5" width="${width - 1}" height="${BADGE_HEIGHT - 1}" rx="${
+    radius - 0.5
+  }" fill="url(#badgeGradient)" stroke="${palette.border}" class="np-stroke-border" stroke-opacity="0.35" />
+
+  <!-- Status dot -->
+  ${isPlaying ? withReducedMotion(dotMarkup) : dotMarkup}
+
+  ${
+    showThumbnail && data
+      ? `<image x="${thumbX}" y="${thumbY}" width="${THUMB_SIZE}" height="${THUMB_SIZE}" xlink:href="data:${artMimeType};base64,${data.artBase64}" clip-path="url(#thumbClip)" preserveAspectRatio="xMidYMid slice"${
+        isDimmed ? ' opacity="0.5"' : ""
+      } />`
+      : ""
+  }
+  </g>
+
+  <text x="${textX}" y="${
+    radius + 4
+  }" fill="${textColor}" class="${textClass}" font-size="${BADGE_FONT_SIZE}" font-family="${fonts.body}">${
+    escapeXml(label)
+  }</text>
+</svg>`;
+}
@@ -1,3 +1,7 @@
+// Mixing steps tried when adjusting a color for contrast.
+const CONTRAST_STEPS = 20;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
   const normalized = hex.replace("#", "");
   const r = parseInt(normalized.slice(0, 2), 16);
@@ -29,3 +33,81 @@ export function mixColors(hexA: string, hexB: string, ratio: number): string {
   const bVal = clamp(Math.round(a.b * (1 - ratio) + b.b * ratio));
   return rgbToHex(r, g, bVal);
 }
+
+/**
+ * Compute the WCAG relative luminance of a color.
+ *
+ * @param hex Hex color.
+ * @returns Luminance between 0 (black) and 1 (white).
+ */
+export function relativeLuminance(hex: string): number {
+  const { r, g, b } = hexToRgb(hex);
+  const linear = (value: number): number => {
+    const channel = value / 255;
+    return channel <= 0.03928
+      ? channel / 12.92
+      : ((channel + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * Compute the WCAG contrast ratio between two colors.
+ *
+ * @param hexA First color.
+ * @param hexB Second color.
+ * @returns Ratio from 1 (identical) to 21 (black on white).
+ */
+export function contrastRatio(hexA: string, hexB: string): number {
+  const a = relativeLuminance(hexA);
+  const b = relativeLuminance(hexB);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Adjust a foreground color until it meets a contrast ratio.
+ *
+ * The color is mixed toward white or black in small steps, whichever reaches
+ * the target with the smaller change, so it keeps as much of its hue as
+ * possible.
+ *
+ * @param foreground Text color.
+ * @param backgrounds Colors the text may be drawn on.
+ * @param minRatio Required contrast ratio against every background.
+ * @returns The original color if it already passes or any color is not
+ * `#rrggbb` (named, `rgb()` and shorthand colors are left as they are),
+ * otherwise the closest passing mix, or the best attainable one.
+ */
+export function ensureContrast(
+  foreground: string,
+  backgrounds: string[],
+  minRatio: number,
+): string {
+  if (
+    ![foreground, ...backgrounds].every((color) =>
+      HEX_COLOR_PATTERN.test(color)
+    )
+  ) {
+    return foreground;
+  }
+  const worstRatio = (color: string): number =>
+    Math.min(
+      ...backgrounds.map((background) => contrastRatio(color, background)),
+    );
+  if (worstRatio(foreground) >= minRatio) return foreground;
+
+  let best = foreground;
+  let bestRatio = worstRatio(foreground);
+  for (let step = 1; step <= CONTRAST_STEPS; step++) {
+    for (const target of ["#ffffff", "#000000"]) {
+      const candidate = mixColors(foreground, target, step / CONTRAST_STEPS);
+      const ratio = worstRatio(candidate);
+      if (ratio >= minRatio) return candidate;
+      if (ratio > bestRatio) {
+        best = candidate;
+        bestRatio = ratio;
+      }
+    }
+  }
+  return best;
+}
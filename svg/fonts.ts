@@ -0,0 +1,60 @@
+import { SvgConfig } from "../types.ts";
+
+function fontFaceRule(
+  family: string,
+  dataUrl: string,
+  format: string | undefined,
+): string {
+  return `@font-face {
+  font-family: '${family}';
+  src: url(${dataUrl}) format('${format || "truetype"}');
+  font-weight: 400;
+  font-style: normal;
+  font-display: swap;
+}`;
+}
+
+/**
+ * Build CSS font-family stacks for the title and body text.
+ *
+ * @param config Visual configuration.
+ * @returns Title and body font stacks.
+ */
+export function resolveFontStacks(
+  config: SvgConfig,
+): { title: string; body: string } {
+  const fallback = config.fontFallback || "sans-serif";
+  return {
+    title: config.fontTitleFamily
+      ? `'${config.fontTitleFamily}', ${fallback}`
+      : fallback,
+    body: config.fontBodyFamily
+      ? `'${config.fontBodyFamily}', ${fallback}`
+      : fallback,
+  };
+}
+
+/**
+ * Build @font-face rules for the embedded fonts.
+ *
+ * @param config Visual configuration with font data URLs attached.
+ * @returns CSS rules, or an empty string when no fonts are embedded.
+ */
+export function generateFontFaceCss(config: SvgConfig): string {
+  return [
+    config.fontTitleDataUrl && config.fontTitleFamily
+      ? fontFaceRule(
+        config.fontTitleFamily,
+        config.fontTitleDataUrl,
+        config.fontTitleFormat,
+      )
+      : "",
+    config.fontBodyDataUrl && config.fontBodyFamily
+      ? fontFaceRule(
+        config.fontBodyFamily,
+        config.fontBodyDataUrl,
+        config.fontBodyFormat,
+      )
+      : "",
+  ].filter(Boolean).join("\n");
+}
@@ -0,0 +1,154 @@
+import { round } from "./math.ts";
+
+const TAG_PATTERN = /<[^>]+>/g;
+const ATTRIBUTE_PATTERN = /([a-zA-Z:-]+)="([^"]*)"/g;
+const NUMBER_PATTERN = /-?\d*\.?\d+(?:e[-+]?\d+)?/gi;
+const TRANSFORM_TYPES = new Set(["translate", "rotate"]);
+
+interface OpenTag {
+  start: number;
+  end: number;
+  tag: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const pattern = new RegExp(`\\s${name}="[^"]*"`);
+  if (pattern.test(tag)) {
+    return tag.replace(pattern, ` ${name}="${value}"`);
+  }
+  return tag.replace(/^<([a-zA-Z]+)/, `<$1 ${name}="${value}"`);
+}
+
+function parseSeconds(value: string | undefined): number {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function parseOffset(value: string | undefined): number {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function interpolateValues(a: string, b: string, t: number): string {
+  const numbersA = a.match(NUMBER_PATTERN) || [];
+  const numbersB = b.match(NUMBER_PATTERN) || [];
+  if (numbersA.length !== numbersB.length) {
+    return t < 0.5 ? a : b;
+  }
+  let index = 0;
+  return a.replace(NUMBER_PATTERN, () => {
+    const from = parseFloat(numbersA[index]);
+    const to = parseFloat(numbersB[index]);
+    index++;
+    return `${round(from + (to - from) * t)}`;
+  });
+}
+
+function sampleAnimation(
+  attributes: Record<string, string>,
+  time: number,
+): string | null {
+  const duration = parseSeconds(attributes.dur);
+  const values = attributes.values
+    ? attributes.values.split(";").map((value) => value.trim())
+    : attributes.from !== undefined && attributes.to !== undefined
+    ? [attributes.from, attributes.to]
+    : null;
+  if (!values || values.length === 0 || duration === 0) return null;
+  if (values.length === 1) return values[0];
+
+  // A negative begin starts the animation part-way through its cycle.
+  const local = time - parseOffset(attributes.begin);
+  if (local < 0) return null;
+  const repeats = attributes.repeatCount === "indefinite";
+  const progress = repeats
+    ? (local % duration) / duration
+    : Math.min(1, local / duration);
+  const position = progress * (values.length - 1);
+  const segment = Math.min(values.length - 2, Math.floor(position));
+  return interpolateValues(
+    values[segment],
+    values[segment + 1],
+    position - segment,
+  );
+}
+
+/**
+ * Replace SMIL animations with their values at a fixed time.
+ *
+ * Handles the `animate` and translate or rotate `animateTransform` elements
+ * emitted by the widget, including negative `begin` offsets, so rasterizers
+ * that ignore SMIL still show a meaningful frame.
+ *
+ * @param svg SVG markup.
+ * @param time Animation time in seconds.
+ * @returns SVG markup without animation elements.
+ */
+export function freezeAnimations(svg: string, time: number): string {
+  const stack: OpenTag[] = [];
+  const edits: Edit[] = [];
+  const parentEdits = new Map<number, Edit>();
+
+  for (const match of svg.matchAll(TAG_PATTERN)) {
+    const tag = match[0];
+    const start = match.index ?? 0;
+    const end = start + tag.length;
+    if (tag.startsWith("<?") || tag.startsWith("<!")) continue;
+    if (tag.startsWith("</")) {
+      stack.pop();
+      continue;
+    }
+
+    const isAnimation = tag.startsWith("<animate ") ||
+      tag.startsWith("<animateTransform ");
+    if (!isAnimation) {
+      if (!tag.endsWith("/>")) stack.push({ start, end, tag });
+      continue;
+    }
+
+    edits.push({ start, end, text: "" });
+    const parent = stack[stack.length - 1];
+    if (!parent) continue;
+    const attributes = parseAttributes(tag);
+    const value = sampleAnimation(attributes, time);
+    if (value === null) continue;
+
+    if (tag.startsWith("<animateTransform ")) {
+      if (!TRANSFORM_TYPES.has(attributes.type)) continue;
+      parent.tag = setAttribute(
+        parent.tag,
+        "transform",
+        `${attributes.type}(${value})`,
+      );
+    } else if (attributes.attributeName) {
+      parent.tag = setAttribute(parent.tag, attributes.attributeName, value);
+    }
+    parentEdits.set(parent.start, {
+      start: parent.start,
+      end: parent.end,
+      text: parent.tag,
+    });
+  }
+
+  edits.push(...parentEdits.values());
+  edits.sort((a, b) => b.start - a.start);
+  let result = svg;
+  for (const edit of edits) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
@@ -1,138 +1,208 @@
 import { defaultSvgConfig, NowPlayingData, SvgConfig } from "../types.ts";
-import { mixColors } from "./colors.ts";
+import {
+  describeNowPlaying,
+  generateAccessibleText,
+  REDUCED_MOTION_CSS,
+  withReducedMotion,
+} from "./a11y.ts";
+import { generateFontFaceCss, resolveFontStacks } from "./fonts.ts";
+import { generateBadgeSvg } from "./badge.ts";
 import { generateMusicNotePlaceholder } from "./icons.ts";
-import { escapeXml, estimateTextWidth, truncateText } from "./text.ts";
-import { generateWaveformLayer, hashString } from "./waves.ts";
+import { computeCardLayout, placeText } from "./layout.ts";
+import { extrapolateProgress, generateProgressBar } from "./progress.ts";
+import {
+  generateSchemeCss,
+  resolveSchemePalette,
+  resolveStaticScheme,
+} from "./scheme.ts";
+import {
+  DEFAULT_IDLE_MESSAGE,
+  describeLastPlayed,
+  resolvePlaybackState,
+  resolveStaleAfterMs,
+} from "./state.ts";
+import { escapeXml, estimateTextWidth, truncateToWidth } from "./text.ts";
+import { resolveVisualizer } from "./visualizers/index.ts";
+import { hashString } from "./waves.ts";
+
+export { STALE_AFTER_MS } from "./state.ts";
+
+// Stand-in for the card when idle is "hide"; a 1x1 image keeps rasterizers
+// and image proxies that reject empty images working.
+const HIDDEN_SVG = `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="1" height="1" viewBox="0 0 1 1" xmlns="http://www.w3.org/2000/svg" aria-hidden="true"></svg>`;
 
 /**
  * Build the SVG widget for the current playback state.
  *
  * @param data Latest now playing payload or null for empty state.
  * @param config Visual configuration overrides.
+ * @param now Render time, for progress and "last played" text.
  * @returns SVG markup as a string.
  */
 export function generateNowPlayingSvg(
   data: NowPlayingData | null,
   config: SvgConfig = defaultSvgConfig,
+  now: number = Date.now(),
 ): string {
-  const isStale = data ? Date.now() - data.updatedAt > 5 * 60 * 1000 : true;
-  const isPlaying = data && data.status === "playing" && !isStale;
-  const isPaused = data && data.status === "paused" && !isStale;
-  const hasTrack = data && (isPlaying || isPaused || isStale);
+  const playbackState = resolvePlaybackState(
+    data,
+    resolveStaleAfterMs(config),
+    now,
+  );
+  const { isStale, isPlaying, isPaused, hasTrack } = playbackState;
+  if (isStale && config.idle === "hide") {
+    return HIDDEN_SVG;
+  }
+
+  if (config.layout === "badge") {
+    return generateBadgeSvg(data, config, now);
+  }
 
   // Use extracted colors or fall back to defaults
-  const dominantColor = data?.colors?.dominant || config.cardBorder;
-  const accentColor = data?.colors?.accent || "#22c55e";
-  const baseDark = mixColors(dominantColor, "#050505", 0.82);
-  const midDark = mixColors(dominantColor, "#0d0f12", 0.7);
-  const highlight = data?.colors?.highlight ||
-    mixColors(accentColor, "#ffffff", 0.45);
+  const palette = resolveSchemePalette(
+    data?.colors,
+    config,
+    resolveStaticScheme(config),
+  );
+  const {
+    base: baseDark,
+    mid: midDark,
+    highlight,
+    accent: accentColor,
+    textPrimary,
+    textSecondary,
+    textMuted,
+  } = palette;
 
   const width = config.width;
   const height = config.height;
-  const albumSize = config.albumSize;
-  const padding = 26;
-  const albumPosition = config.albumPosition || "left";
-  const albumX = albumPosition === "right"
-    ? width - padding - albumSize
-    : padding;
-  const albumY = (height - albumSize) / 2;
-  const textAlign = config.textAlign || "left";
-  const textAreaLeft = albumPosition === "right"
-    ? padding
-    : albumX + albumSize + 22;
-  const textAreaRight = albumPosition === "right"
-    ? albumX - 22
-    : width - padding;
-  const textAreaWidth = Math.max(0, textAreaRight - textAreaLeft);
-  const textAnchor = textAlign === "right"
-    ? "end"
-    : textAlign === "center"
-    ? "middle"
-    : "start";
-  const textX = textAlign === "right"
-    ? textAreaRight
-    : textAlign === "center"
-    ? textAreaLeft + textAreaWidth / 2
-    : textAreaLeft;
-  const barsStartX = 2;
-  const barsEndX = width - 2;
-  const waveBaseY = height - 2;
-  const waveHeight = 170;
-  const titleFontSize = 24;
-  const artistFontSize = 15;
-  const albumFontSize = 13;
-  const titleY = albumY + 40;
-  const artistY = albumY + 76;
-  const albumYPos = albumY + 90;
+  const layout = computeCardLayout(config, data?.title || "");
+  const {
+    isVertical,
+    albumX,
+    albumY,
+    albumSize,
+    textAlign,
+    textAnchor,
+    textAreaLeft,
+    textAreaRight,
+    textAreaWidth,
+    textX,
+    titleFontSize,
+    artistFontSize,
+    albumFontSize,
+    statusFontSize,
+    emptyFontSize,
+    titleLines,
+    titleLineHeight,
+    statusY,
+    titleY,
+    titleClipY,
+    titleClipHeight,
+    artistY,
+    albumTextY,
+    progressY,
+    emptyY,
+    scale,
+  } = layout;
+  const titlePlacement = placeText(layout, data?.title || "");
+  const artistPlacement = placeText(layout, data?.artist || "");
+  const albumPlacement = placeText(layout, data?.album || "");
+  const titleDirection = titlePlacement.rtl ? ' direction="rtl"' : "";
+  const artistDirection = artistPlacement.rtl ? ' direction="rtl"' : "";
+  const albumDirection = albumPlacement.rtl ? ' direction="rtl"' : "";
+  const showProgress = Boolean(
+    config.showProgress && data && (isPlaying || isPaused) &&
+      data.duration > 0,
+  );
+  const elapsed = data && showProgress
+    ? extrapolateProgress(
+      data.progress,
+      data.duration,
+      data.updatedAt,
+      Boolean(isPlaying),
+      now,
+    )
+    : 0;
+  const dimAttribute = isStale && config.idle === "dim" ? ' opacity="0.5"' : "";
+  const artMimeType = data?.artMimeType || "image/jpeg";
+  const idleMessage = truncateToWidth(
+    config.idleMessage || DEFAULT_IDLE_MESSAGE,
+    textAreaWidth,
+    emptyFontSize,
+    config.fontBodyMetrics,
+  );
   const titleClipWidth = textAreaWidth;
   const titleText = data?.title || "";
   const titleSeed = hashString(titleText || "tauon");
-  const titleTextWidth = estimateTextWidth(titleText, titleFontSize);
-  const titleGap = 36;
-  const titleScrollDistance = Math.max(
-    titleTextWidth + titleGap,
-    titleClipWidth + titleGap,
-  );
-  const titleScrollNeeded = textAlign !== "center" && titleClipWidth > 0 &&
-    estimateTextWidth(titleText, titleFontSize) > titleClipWidth;
-  const titleMaxChars = Math.max(
-    10,
-    Math.floor(textAreaWidth / (titleFontSize * 0.55)),
+  const titleTextWidth = estimateTextWidth(
+    titleText,
+    titleFontSize,
+    config.fontTitleMetrics,
   );
-  const artistMaxChars = Math.max(
-    10,
-    Math.floor(textAreaWidth / (artistFontSize * 0.55)),
+  const titleGap = 36 * scale;
+  const titleScrollDistance = Math.round(
+    Math.max(titleTextWidth + titleGap, titleClipWidth + titleGap),
   );
-  const albumMaxChars = Math.max(
-    10,
-    Math.floor(textAreaWidth / (albumFontSize * 0.55)),
+  // RTL titles start at the right edge and scroll the other way.
+  const titleScrollX = titlePlacement.rtl ? textAreaRight : textAreaLeft;
+  const titleScrollOffset = titlePlacement.rtl
+    ? -titleScrollDistance
+    : titleScrollDistance;
+  const titleScrollNeeded = !isVertical && textAlign !== "center" &&
+    titleClipWidth > 0 &&
+    titleTextWidth > titleClipWidth;
+  const fontStacks = resolveFontStacks(config);
+  const fontTitleFamily = fontStacks.title;
+  const fontBodyFamily = fontStacks.body;
+  const css = generateFontFaceCss(config) +
+    generateSchemeCss(data?.colors, config) + REDUCED_MOTION_CSS;
+  const styleBlock = css ? `<style>${css}</style>` : "";
+
+  const visualizer = resolveVisualizer(config.visualizer);
+  const visualizerMarkup = visualizer.render({
+    width,
+    height,
+    layout,
+    palette,
+    borderRadius: config.borderRadius,
+    seed: titleSeed,
+    isPlaying: Boolean(isPlaying),
+  });
+  const staticTitleMarkup = data
+    ? `<text x="${titlePlacement.x}" y="${titleY}" fill="${textPrimary}" class="np-fill-primary" font-size="${titleFontSize}" font-weight="600" text-overflow="ellipsis" filter="url(#textGlow)" text-anchor="${titlePlacement.anchor}" font-family="${fontTitleFamily}"${titleDirection}>${
+      escapeXml(
+        truncateToWidth(
+          data.title,
+          textAreaWidth,
+          titleFontSize,
+          config.fontTitleMetrics,
+        ),
+      )
+    }</text>`
+    : "";
+  const accessibleText = generateAccessibleText(
+    describeNowPlaying(data, playbackState, config, now),
+    (data && hasTrack
+      ? `Album art for ${data.album || data.title}`
+      : "Empty now playing card") +
+      (visualizer.description ? ` with ${visualizer.description}.` : "."),
   );
-  const fontFallback = config.fontFallback || 'sans-serif';
-  const fontTitleFamily = config.fontTitleFamily
-    ? `'${config.fontTitleFamily}', ${fontFallback}`
-    : fontFallback;
-  const fontBodyFamily = config.fontBodyFamily
-    ? `'${config.fontBodyFamily}', ${fontFallback}`
-    : fontFallback;
-  const fontFaces = [
-    config.fontTitleDataUrl && config.fontTitleFamily
-      ? `@font-face {
-  font-family: '${config.fontTitleFamily}';
-  src: url(${config.fontTitleDataUrl}) format('${
-        config.fontTitleFormat || 'truetype'
-      }');
-  font-weight: 400;
-  font-style: normal;
-  font-display: swap;
-}`
-      : '',
-    config.fontBodyDataUrl && config.fontBodyFamily
-      ? `@font-face {
-  font-family: '${config.fontBodyFamily}';
-  src: url(${config.fontBodyDataUrl}) format('${
-        config.fontBodyFormat || 'truetype'
-      }');
-  font-weight: 400;
-  font-style: normal;
-  font-display: swap;
-}`
-      : '',
-  ].filter(Boolean).join('\n');
-  const styleBlock = fontFaces ? `<style>${fontFaces}</style>` : '';
 
   const svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" role="img" aria-labelledby="np-title np-desc">
+  ${accessibleText}
   <defs>
     ${styleBlock}
     <linearGradient id="cardGradient" x1="0" y1="0" x2="0" y2="1">
-      <stop offset="0%" stop-color="${baseDark}" />
-      <stop offset="60%" stop-color="${midDark}" />
-      <stop offset="100%" stop-color="${baseDark}" />
+      <stop offset="0%" stop-color="${baseDark}" class="np-stop-base" />
+      <stop offset="60%" stop-color="${midDark}" class="np-stop-mid" />
+      <stop offset="100%" stop-color="${baseDark}" class="np-stop-base" />
     </linearGradient>
     <linearGradient id="barsFade" x1="0" y1="0" x2="0" y2="1">
-      <stop offset="0%" stop-color="${highlight}" stop-opacity="1" />
-      <stop offset="100%" stop-color="${accentColor}" stop-opacity="0.3" />
+      <stop offset="0%" stop-color="${highlight}" stop-opacity="1" class="np-stop-highlight" />
+      <stop offset="100%" stop-color="${accentColor}" stop-opacity="0.3" class="np-stop-accent" />
     </linearGradient>
     <clipPath id="albumClip">
       <rect x="${albumX}" y="${albumY}" width="${albumSize}" height="${albumSize}" rx="${config.borderRadius}" />
@@ -143,140 +213,173 @@ export function generateNowPlayingSvg(
   }" />
     </clipPath>
     <clipPath id="titleClip" clipPathUnits="userSpaceOnUse">
-      <rect x="${textAreaLeft}" y="${
-    albumY + 34
-  }" width="${titleClipWidth}" height="26" />
+      <rect x="${textAreaLeft}" y="${titleClipY}" width="${titleClipWidth}" height="${titleClipHeight}" />
     </clipPath>
     <filter id="glow" x="-50%" y="-50%" width="200%" height="200%">
-      <feDropShadow dx="0" dy="0" stdDeviation="8" flood-color="${highlight}" flood-opacity="0.65" />
-      <feDropShadow dx="0" dy="0" stdDeviation="16" flood-color="${highlight}" flood-opacity="0.25" />
+      <feDropShadow dx="0" dy="0" stdDeviation="8" flood-color="${highlight}" flood-opacity="0.65" class="np-flood-highlight" />
+      <feDropShadow dx="0" dy="0" stdDeviation="16" flood-color="${highlight}" flood-opacity="0.25" class="np-flood-highlight" />
     </filter>
     <filter id="textGlow" x="-50%" y="-50%" width="200%" height="200%">
-      <feDropShadow dx="0" dy="0" stdDeviation="4" flood-color="${highlight}" flood-opacity="0.6" />
+      <feDropShadow dx="0" dy="0" stdDeviation="4" flood-color="${highlight}" flood-opacity="0.6" class="np-flood-highlight" />
     </filter>
   </defs>
 
   <!-- Card background with clean rounded border -->
-  <rect width="${width}" height="${height}" rx="${config.borderRadius}" fill="${midDark}" />
-  <rect x="2" y="2" width="${width - 4}" height="${height - 4}" rx="${
+  <g aria-hidden="true">
+    <rect width="${width}" height="${height}" rx="${config.borderRadius}" fill="${midDark}" class="np-fill-mid" />
+    <rect x="2" y="2" width="${width - 4}" height="${height - 4}" rx="${
     config.borderRadius - 2
   }" fill="url(#cardGradient)" />
-
-  <!-- Background waveform -->
-  <g fill="url(#barsFade)" opacity="0.4" clip-path="url(#cardClip)">
-    ${
-    generateWaveformLayer(
-      highlight,
-      0.28,
-      barsStartX,
-      barsEndX,
-      waveBaseY,
-      waveHeight,
-      titleSeed * 0.03,
-      8,
-    )
-  }
-    ${
-    generateWaveformLayer(
-      highlight,
-      0.18,
-      barsStartX,
-      barsEndX,
-      waveBaseY,
-      waveHeight * 0.7,
-      titleSeed * 0.05 + 4.1,
-      12,
-    )
-  }
   </g>
 
-  ${
-    isPlaying
-      ? `<g fill="url(#barsFade)" opacity="0.45" clip-path="url(#cardClip)">${
-        generateWaveformLayer(
-          highlight,
-          0.65,
-          barsStartX,
-          barsEndX,
-          waveBaseY,
-          waveHeight * 0.85,
-          titleSeed * 0.08 + 8.2,
-          5,
-        )
-      }</g>`
-      : ""
-  }
+  <!-- Background visualizer -->
+  <g aria-hidden="true">
+    ${visualizerMarkup ? withReducedMotion(visualizerMarkup, "") : ""}
+  </g>
 
   <!-- Text content -->
-  <g font-family="${fontBodyFamily}">
+  <g font-family="${fontBodyFamily}"${dimAttribute}>
     ${
-    hasTrack
+    data && hasTrack
       ? `
-    ${config.showStatus ? `
+    ${
+        config.showStatus
+          ? `
     <!-- Status pill -->
-    <text x="${textX}" y="${
-        albumY + 18
-      }" fill="${highlight}" font-size="12" font-weight="700" letter-spacing="0.12em" filter="url(#textGlow)" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
-      ${isStale ? "LAST PLAYED" : isPlaying ? "NOW PLAYING" : "PAUSED"}
+    <text x="${textX}" y="${statusY}" fill="${palette.status}" class="np-fill-status" font-size="${statusFontSize}" font-weight="700" letter-spacing="0.12em" filter="url(#textGlow)" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
+      ${
+            isStale
+              ? escapeXml(describeLastPlayed(data, config, now).toUpperCase())
+              : isPlaying
+              ? "NOW PLAYING"
+              : "PAUSED"
+          }
     </text>
-    ` : ""}
+    `
+          : ""
+      }
 
-    ${config.showTitle ? `
-    <!-- Title -->
     ${
-        titleScrollNeeded
+        config.showTitle
           ? `
-    <g clip-path="url(#titleClip)">
+    <!-- Title -->
+    ${
+            titleScrollNeeded
+              ? `
+    <g clip-path="url(#titleClip)" class="np-motion">
       <g>
-        <text x="${textAreaLeft}" y="${titleY}" fill="${config.textPrimary}" font-size="${titleFontSize}" font-weight="600" filter="url(#textGlow)" font-family="${fontTitleFamily}">
+        <text x="${titleScrollX}" y="${titleY}" fill="${textPrimary}" class="np-fill-primary" font-size="${titleFontSize}" font-weight="600" filter="url(#textGlow)" font-family="${fontTitleFamily}"${titleDirection}>
           ${escapeXml(data.title)}
         </text>
-        <text x="${textAreaLeft + titleScrollDistance}" y="${titleY}" fill="${config.textPrimary}" font-size="${titleFontSize}" font-weight="600" filter="url(#textGlow)" font-family="${fontTitleFamily}">
+        <text x="${
+                titleScrollX + titleScrollOffset
+              }" y="${titleY}" fill="${textPrimary}" class="np-fill-primary" font-size="${titleFontSize}" font-weight="600" filter="url(#textGlow)" font-family="${fontTitleFamily}"${titleDirection}>
           ${escapeXml(data.title)}
         </text>
-        <animateTransform attributeName="transform" type="translate" from="0 0" to="-${titleScrollDistance} 0" dur="15s" repeatCount="indefinite" />
+        <animateTransform attributeName="transform" type="translate" from="0 0" to="${-titleScrollOffset} 0" dur="15s" repeatCount="indefinite" />
       </g>
     </g>
+    <g class="np-reduced">${staticTitleMarkup}</g>
     `
-          : `
-    <text x="${textX}" y="${titleY}" fill="${config.textPrimary}" font-size="${titleFontSize}" font-weight="600" text-overflow="ellipsis" filter="url(#textGlow)" text-anchor="${textAnchor}" font-family="${fontTitleFamily}">
-      ${escapeXml(truncateText(data.title, titleMaxChars))}
+              : isVertical
+              ? `
+    <text x="${titlePlacement.x}" y="${titleY}" fill="${textPrimary}" class="np-fill-primary" font-size="${titleFontSize}" font-weight="600" filter="url(#textGlow)" text-anchor="${titlePlacement.anchor}" font-family="${fontTitleFamily}"${titleDirection}>
+      ${
+                titleLines.map((line, index) =>
+                  `<tspan x="${titlePlacement.x}" dy="${
+                    index === 0 ? 0 : titleLineHeight
+                  }">${escapeXml(line)}</tspan>`
+                ).join("")
+              }
     </text>
     `
+              : `
+    ${staticTitleMarkup}
+    `
+          }
+    `
+          : ""
       }
-    ` : ""}
 
-    ${config.showArtist ? `
+    ${
+        config.showArtist
+          ? `
     <!-- Artist -->
-    <text x="${textX}" y="${artistY}" fill="${config.textSecondary}" font-size="${artistFontSize}" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
-      ${escapeXml(truncateText(data.artist, artistMaxChars))}
+    <text x="${artistPlacement.x}" y="${artistY}" fill="${textSecondary}" class="np-fill-secondary" font-size="${artistFontSize}" text-anchor="${artistPlacement.anchor}" font-family="${fontBodyFamily}"${artistDirection}>
+      ${
+            escapeXml(
+              truncateToWidth(
+                data.artist,
+                textAreaWidth,
+                artistFontSize,
+                config.fontBodyMetrics,
+              ),
+            )
+          }
     </text>
-    ` : ""}
+    `
+          : ""
+      }
 
-    ${config.showAlbum ? `
+    ${
+        config.showAlbum
+          ? `
     <!-- Album and status -->
-    <text x="${textX}" y="${albumYPos}" fill="${config.textMuted}" font-size="${albumFontSize}" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
-      ${escapeXml(truncateText(data.album, albumMaxChars))}
+    <text x="${albumPlacement.x}" y="${albumTextY}" fill="${textMuted}" class="np-fill-muted" font-size="${albumFontSize}" text-anchor="${albumPlacement.anchor}" font-family="${fontBodyFamily}"${albumDirection}>
+      ${
+            escapeXml(
+              truncateToWidth(
+                data.album,
+                textAreaWidth,
+                albumFontSize,
+                config.fontBodyMetrics,
+              ),
+            )
+          }
     </text>
-    ` : ""}
+    `
+          : ""
+      }
+
+    ${
+        showProgress
+          ? `
+    <!-- Progress -->
+    ${
+            generateProgressBar(
+              textAreaLeft,
+              progressY,
+              textAreaWidth,
+              elapsed,
+              data.duration,
+              Boolean(isPlaying),
+              highlight,
+              textMuted,
+              fontBodyFamily,
+              scale,
+              config.fontBodyMetrics,
+            )
+          }
+    `
+          : ""
+      }
     `
       : `
     <!-- Not playing message -->
-    <text x="${textX}" y="${
-        height / 2
-      }" fill="${config.textMuted}" font-size="14" dominant-baseline="middle" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
-      Nothing playing right now
+    <text x="${textX}" y="${emptyY}" fill="${textMuted}" class="np-fill-muted" font-size="${emptyFontSize}" dominant-baseline="middle" text-anchor="${textAnchor}" font-family="${fontBodyFamily}">
+      ${escapeXml(idleMessage)}
     </text>
     `
   }
   </g>
 
+  <g aria-hidden="true"${dimAttribute}>
   ${
-    hasTrack && data.artBase64
+    data && hasTrack && data.artBase64
       ? `
   <!-- Album art with rounded corners -->
-  <image x="${albumX}" y="${albumY}" width="${albumSize}" height="${albumSize}" xlink:href="data:image/jpeg;base64,${data.artBase64}" clip-path="url(#albumClip)" preserveAspectRatio="xMidYMid slice" filter="url(#glow)" />
-  <rect x="${albumX}" y="${albumY}" width="${albumSize}" height="${albumSize}" rx="${config.borderRadius}" fill="none" stroke="${highlight}" stroke-opacity="0.75" stroke-width="3" filter="url(#textGlow)" />
+  <image x="${albumX}" y="${albumY}" width="${albumSize}" height="${albumSize}" xlink:href="data:${artMimeType};base64,${data.artBase64}" clip-path="url(#albumClip)" preserveAspectRatio="xMidYMid slice" filter="url(#glow)" />
+  <rect x="${albumX}" y="${albumY}" width="${albumSize}" height="${albumSize}" rx="${config.borderRadius}" fill="none" stroke="${palette.border}" class="np-stroke-border" stroke-opacity="0.75" stroke-width="3" filter="url(#textGlow)" />
   `
       : generateMusicNotePlaceholder(
         albumX,
@@ -285,6 +388,7 @@ export function generateNowPlayingSvg(
         highlight,
       )
   }
+  </g>
 </svg>`;
 
   return svg;
@@ -0,0 +1,234 @@
+import { SvgConfig } from "../types.ts";
+import { round } from "./math.ts";
+import { isRtlText, wrapText } from "./text.ts";
+
+// Reference card the original offsets were designed against.
+const BASE_HEIGHT = 200;
+const BASE_PORTRAIT_WIDTH = 300;
+const BASE_PADDING = 26;
+const BASE_TEXT_GAP = 22;
+
+// Height of the text block beside (horizontal) or below (portrait) the art at
+// a scale of 1.
+const HORIZONTAL_TEXT_BLOCK = 150;
+const VERTICAL_TEXT_BLOCK = 160;
+const VERTICAL_TITLE_LINES = 2;
+
+const MIN_SCALE = 0.55;
+const MAX_SCALE = 2;
+
+/** Shortest horizontal card that holds the text block at the minimum scale. */
+export const MIN_CARD_HEIGHT = Math.ceil(HORIZONTAL_TEXT_BLOCK * MIN_SCALE);
+
+export interface CardLayout {
+  isVertical: boolean;
+  scale: number;
+  padding: number;
+  albumX: number;
+  albumY: number;
+  albumSize: number;
+  textAlign: SvgConfig["textAlign"];
+  textAnchor: "start" | "middle" | "end";
+  textAreaLeft: number;
+  textAreaRight: number;
+  textAreaWidth: number;
+  textX: number;
+  waveHeight: number;
+  titleFontSize: number;
+  artistFontSize: number;
+  albumFontSize: number;
+  statusFontSize: number;
+  emptyFontSize: number;
+  titleLines: string[];
+  titleLineHeight: number;
+  statusY: number;
+  titleY: number;
+  titleClipY: number;
+  titleClipHeight: number;
+  artistY: number;
+  albumTextY: number;
+  progressY: number;
+  emptyY: number;
+}
+
+export interface TextPlacement {
+  x: number;
+  anchor: CardLayout["textAnchor"];
+  rtl: boolean;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Derive card geometry from the configured size.
+ *
+ * Padding, font sizes and line offsets scale with the card so small and large
+ * themes keep the proportions of the default 800x200 card. The album size is
+ * treated as an upper bound and shrunk to fit the card, and the scale is
+ * lowered further on cards too short to hold the text block.
+ *
+ * @param config Visual configuration.
+ * @param title Track title, used to wrap the title on portrait cards.
+ * @returns Positions and sizes for every card element.
+ */
+export function computeCardLayout(
+  config: SvgConfig,
+  title: string,
+): CardLayout {
+  const { width, height } = config;
+  const albumPosition = config.albumPosition || "left";
+  const isVertical = albumPosition === "top";
+  const fitScale = isVertical
+    ? height / (VERTICAL_TEXT_BLOCK + BASE_PADDING * 2)
+    : height / HORIZONTAL_TEXT_BLOCK;
+  const scale = Math.min(
+    clamp(
+      isVertical ? width / BASE_PORTRAIT_WIDTH : height / BASE_HEIGHT,
+      MIN_SCALE,
+      MAX_SCALE,
+    ),
+    fitScale,
+  );
+  const padding = round(BASE_PADDING * scale);
+  const textGap = round(BASE_TEXT_GAP * scale);
+
+  const titleFontSize = Math.round((isVertical ? 20 : 24) * scale);
+  const artistFontSize = Math.round(15 * scale);
+  const albumFontSize = Math.round(13 * scale);
+  const statusFontSize = Math.round(12 * scale);
+  const emptyFontSize = Math.round(14 * scale);
+
+  const albumSize = round(Math.max(
+    0,
+    isVertical
+      ? Math.min(
+        config.albumSize,
+        width - padding * 2,
+        height - padding * 2 - VERTICAL_TEXT_BLOCK * scale,
+      )
+      : Math.min(config.albumSize, height - padding * 2, width * 0.45),
+  ));
+  const albumX = round(
+    isVertical
+      ? (width - albumSize) / 2
+      : albumPosition === "right"
+      ? width - padding - albumSize
+      : padding,
+  );
+  const albumY = round(isVertical ? padding : (height - albumSize) / 2);
+
+  const textAlign = isVertical ? "center" : config.textAlign || "left";
+  const textAreaLeft = isVertical || albumPosition === "right"
+    ? padding
+    : albumX + albumSize + textGap;
+  const textAreaRight = isVertical || albumPosition !== "right"
+    ? width - padding
+    : albumX - textGap;
+  const textAreaWidth = Math.max(0, textAreaRight - textAreaLeft);
+  const textAnchor = textAlign === "right"
+    ? "end"
+    : textAlign === "center"
+    ? "middle"
+    : "start";
+  const textX = textAlign === "right"
+    ? textAreaRight
+    : textAlign === "center"
+    ? textAreaLeft + textAreaWidth / 2
+    : textAreaLeft;
+
+  const titleLines = isVertical
+    ? wrapText(
+      title,
+      textAreaWidth,
+      VERTICAL_TITLE_LINES,
+      titleFontSize,
+      config.fontTitleMetrics,
+    )
+    : [];
+  const titleLineHeight = Math.round(titleFontSize * 1.25);
+  const albumBottom = albumY + albumSize;
+
+  let statusY: number;
+  let titleY: number;
+  let artistY: number;
+  let albumTextY: number;
+  let progressY: number;
+  let emptyY: number;
+  if (isVertical) {
+    const titleExtraHeight = Math.max(0, titleLines.length - 1) *
+      titleLineHeight;
+    statusY = albumBottom + 30 * scale;
+    titleY = statusY + 30 * scale;
+    artistY = titleY + titleExtraHeight + 24 * scale;
+    albumTextY = artistY + 20 * scale;
+    progressY = albumTextY + 16 * scale;
+    emptyY = albumBottom + (height - albumBottom) / 2;
+  } else {
+    // Center the text block on the art so it never spills past the card when
+    // the art is shrunk further than the text.
+    const blockTop = albumY +
+      (albumSize - HORIZONTAL_TEXT_BLOCK * scale) / 2;
+    statusY = blockTop + 18 * scale;
+    titleY = blockTop + 40 * scale;
+    artistY = blockTop + 76 * scale;
+    albumTextY = blockTop + 90 * scale;
+    progressY = blockTop + (HORIZONTAL_TEXT_BLOCK - 12) * scale;
+    emptyY = height / 2;
+  }
+
+  return {
+    isVertical,
+    scale,
+    padding,
+    albumX,
+    albumY,
+    albumSize,
+    textAlign,
+    textAnchor,
+    textAreaLeft,
+    textAreaRight,
+    textAreaWidth,
+    textX,
+    waveHeight: round(
+      isVertical ? Math.max(0, height - albumBottom) * 0.9 : height * 0.85,
+    ),
+    titleFontSize,
+    artistFontSize,
+    albumFontSize,
+    statusFontSize,
+    emptyFontSize,
+    titleLines,
+    titleLineHeight,
+    statusY: round(statusY),
+    titleY: round(titleY),
+    titleClipY: round(titleY - titleFontSize),
+    titleClipHeight: Math.round(titleFontSize * 1.4),
+    artistY: round(artistY),
+    albumTextY: round(albumTextY),
+    progressY: round(progressY),
+    emptyY: round(emptyY),
+  };
+}
+
+/**
+ * Position a line of text, mirroring the alignment for right-to-left text.
+ *
+ * With `direction="rtl"` the start of the text is its right edge, so the
+ * anchor keyword stays the same while the x position moves to the other
+ * side of the text area.
+ *
+ * @param layout Card geometry.
+ * @param text Text to place.
+ * @returns Anchor position and keyword, and whether the text is RTL.
+ */
+export function placeText(layout: CardLayout, text: string): TextPlacement {
+  const rtl = isRtlText(text);
+  const x = !rtl || layout.textAlign === "center"
+    ? layout.textX
+    : layout.textAlign === "right"
+    ? layout.textAreaLeft
+    : layout.textAreaRight;
+  return { x, anchor: layout.textAnchor, rtl };
+}
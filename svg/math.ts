@@ -0,0 +1,9 @@
+/**
+ * Round a coordinate to two decimals to keep the markup compact.
+ *
+ * @param value Coordinate or length.
+ * @returns Value rounded to hundredths.
+ */
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
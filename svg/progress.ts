@@ -0,0 +1,108 @@
+import { FontMetrics } from "../types.ts";
+import { round } from "./math.ts";
+import { estimateTextWidth } from "./text.ts";
+
+const BAR_HEIGHT = 4;
+const TIME_FONT_SIZE = 11;
+const TIME_GAP = 12;
+
+/**
+ * Format a millisecond duration as m:ss (or h:mm:ss).
+ *
+ * @param ms Duration in milliseconds.
+ * @returns Formatted time string.
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const ss = seconds.toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${ss}`
+    : `${minutes}:${ss}`;
+}
+
+/**
+ * Estimate the playback position at render time.
+ *
+ * @param progress Position reported by the poller in milliseconds.
+ * @param duration Track length in milliseconds.
+ * @param updatedAt Time the position was reported.
+ * @param isPlaying Whether playback is advancing.
+ * @param now Current time.
+ * @returns Elapsed milliseconds clamped to the track length.
+ */
+export function extrapolateProgress(
+  progress: number,
+  duration: number,
+  updatedAt: number,
+  isPlaying: boolean,
+  now: number = Date.now(),
+): number {
+  const elapsed = isPlaying
+    ? progress + Math.max(0, now - updatedAt)
+    : progress;
+  return Math.max(0, Math.min(duration, elapsed));
+}
+
+/**
+ * Render a progress bar with elapsed/total time text.
+ *
+ * The bar fill animates to the end of the track over the remaining time
+ * while playing, and stays frozen otherwise.
+ *
+ * @param x Left edge of the row.
+ * @param y Top of the bar.
+ * @param width Total row width including the time text.
+ * @param elapsed Elapsed milliseconds at render time.
+ * @param duration Track length in milliseconds.
+ * @param animate Whether the fill should advance.
+ * @param color Fill color.
+ * @param textColor Time text color.
+ * @param fontFamily Font family for the time text.
+ * @param scale Size multiplier for the bar and time text.
+ * @param metrics Advance widths of the time text font.
+ * @returns SVG markup for the progress row.
+ */
+export function generateProgressBar(
+  x: number,
+  y: number,
+  width: number,
+  elapsed: number,
+  duration: number,
+  animate: boolean,
+  color: string,
+  textColor: string,
+  fontFamily: string,
+  scale: number = 1,
+  metrics?: FontMetrics,
+): string {
+  const barHeight = BAR_HEIGHT * scale;
+  const timeFontSize = Math.round(TIME_FONT_SIZE * scale);
+  const timeText = `${formatDuration(elapsed)} / ${formatDuration(duration)}`;
+  const timeWidth = estimateTextWidth(timeText, timeFontSize, metrics);
+  const barWidth = Math.max(0, width - timeWidth - TIME_GAP * scale);
+  const ratio = duration > 0 ? elapsed / duration : 0;
+  const fillWidth = round(barWidth * ratio);
+  const remainingSeconds = (duration - elapsed) / 1000;
+  const fillAnimation = animate && remainingSeconds > 0
+    ? `
+      <animate attributeName="width" from="${fillWidth}" to="${barWidth}" dur="${
+      remainingSeconds.toFixed(2)
+    }s" fill="freeze" />`
+    : "";
+
+  return `<g>
+    <rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" rx="${
+    barHeight / 2
+  }" fill="${color}" fill-opacity="0.2" class="np-fill-highlight" />
+    <rect x="${x}" y="${y}" width="${fillWidth}" height="${barHeight}" rx="${
+    barHeight / 2
+  }" fill="${color}" class="np-fill-highlight">${fillAnimation}
+    </rect>
+    <text x="${x + width}" y="${
+    y + barHeight / 2 + 4 * scale
+  }" fill="${textColor}" class="np-fill-muted" font-size="${timeFontSize}" text-anchor="end" font-family="${fontFamily}">${timeText}</text>
+  </g>`;
+}
@@ -0,0 +1,163 @@
+import { ColorPalette, defaultLightColors, SvgConfig } from "../types.ts";
+import { ensureContrast, mixColors } from "./colors.ts";
+
+export type ColorScheme = "light" | "dark";
+
+export interface SchemePalette {
+  base: string;
+  mid: string;
+  highlight: string;
+  accent: string;
+  border: string;
+  status: string;
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+}
+
+type PaletteRole = keyof SchemePalette;
+
+const DEFAULT_ACCENT = "#22c55e";
+
+// WCAG AA and AAA ratios for normal-size text.
+const CONTRAST_RATIOS = { aa: 4.5, strict: 7 };
+
+// Elements opt into scheme switching with these classes; the presentation
+// attributes keep the static colors for renderers without CSS support.
+const SCHEME_CLASSES: [string, string, PaletteRole][] = [
+  ["np-stop-base", "stop-color", "base"],
+  ["np-stop-mid", "stop-color", "mid"],
+  ["np-stop-highlight", "stop-color", "highlight"],
+  ["np-stop-accent", "stop-color", "accent"],
+  ["np-flood-highlight", "flood-color", "highlight"],
+  ["np-fill-base", "fill", "base"],
+  ["np-fill-mid", "fill", "mid"],
+  ["np-fill-highlight", "fill", "highlight"],
+  ["np-stroke-highlight", "stroke", "highlight"],
+  ["np-stroke-border", "stroke", "border"],
+  ["np-fill-status", "fill", "status"],
+  ["np-fill-primary", "fill", "textPrimary"],
+  ["np-fill-secondary", "fill", "textSecondary"],
+  ["np-fill-muted", "fill", "textMuted"],
+];
+
+/**
+ * Pick the scheme used for presentation attributes.
+ *
+ * @param config Visual configuration.
+ * @returns Light only when explicitly requested; auto renders dark first.
+ */
+export function resolveStaticScheme(config: SvgConfig): ColorScheme {
+  return config.scheme === "light" ? "light" : "dark";
+}
+
+/**
+ * Adjust text colors to meet the configured contrast against the card
+ * gradient.
+ *
+ * @param palette Palette with the theme's text colors.
+ * @param config Visual configuration.
+ * @returns Palette with readable text colors.
+ */
+function applyTextContrast(
+  palette: SchemePalette,
+  config: SvgConfig,
+): SchemePalette {
+  const mode = config.contrast ?? "aa";
+  if (mode === "off") return palette;
+  const backgrounds = [palette.base, palette.mid];
+  const adjust = (color: string) =>
+    ensureContrast(color, backgrounds, CONTRAST_RATIOS[mode]);
+  return {
+    ...palette,
+    status: adjust(palette.status),
+    textPrimary: adjust(palette.textPrimary),
+    textSecondary: adjust(palette.textSecondary),
+    textMuted: adjust(palette.textMuted),
+  };
+}
+
+/**
+ * Resolve card colors for a scheme.
+ *
+ * @param colors Palette extracted from the album art, if any.
+ * @param config Visual configuration.
+ * @param scheme Scheme to resolve.
+ * @returns Colors for backgrounds, accents and text, with text adjusted for
+ * contrast unless disabled.
+ */
+export function resolveSchemePalette(
+  colors: ColorPalette | null | undefined,
+  config: SvgConfig,
+  scheme: ColorScheme,
+): SchemePalette {
+  // Palettes from older pollers only carry dominant, accent and highlight;
+  // the swatch roles fall back to those.
+  const accent = colors?.vibrant || colors?.accent || DEFAULT_ACCENT;
+  if (scheme === "dark") {
+    const dominant = colors?.dominant || config.cardBorder;
+    const highlight = colors?.highlight || mixColors(accent, "#ffffff", 0.45);
+    return applyTextContrast({
+      base: mixColors(colors?.dark || dominant, "#050505", 0.82),
+      mid: mixColors(colors?.muted || dominant, "#0d0f12", 0.7),
+      highlight,
+      accent,
+      border: colors?.light || highlight,
+      status: highlight,
+      textPrimary: config.textPrimary,
+      textSecondary: config.textSecondary,
+      textMuted: config.textMuted,
+    }, config);
+  }
+
+  const light = { ...defaultLightColors, ...config.light };
+  const dominant = colors?.dominant || light.cardBorder;
+  // The extracted highlight is tuned for dark cards; darken the accent
+  // instead so it stays readable on a light background.
+  const highlight = mixColors(accent, "#000000", 0.35);
+  return applyTextContrast({
+    base: mixColors(colors?.light || dominant, light.cardBackground, 0.9),
+    mid: mixColors(colors?.muted || dominant, light.cardBackground, 0.8),
+    highlight,
+    accent,
+    border: colors?.dark || highlight,
+    status: highlight,
+    textPrimary: light.textPrimary,
+    textSecondary: light.textSecondary,
+    textMuted: light.textMuted,
+  }, config);
+}
+
+function propertyName(role: string): string {
+  return `--np-${role.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+function customProperties(palette: SchemePalette): string {
+  return Object.entries(palette)
+    .map(([role, color]) => `${propertyName(role)}:${color};`)
+    .join("");
+}
+
+/**
+ * Build CSS that switches the card to the light palette when the viewer
+ * prefers a light color scheme.
+ *
+ * @param colors Palette extracted from the album art, if any.
+ * @param config Visual configuration.
+ * @returns CSS rules, empty unless the scheme is auto and a light variant is
+ * defined.
+ */
+export function generateSchemeCss(
+  colors: ColorPalette | null | undefined,
+  config: SvgConfig,
+): string {
+  if ((config.scheme ?? "auto") !== "auto" || !config.light) return "";
+  const dark = resolveSchemePalette(colors, config, "dark");
+  const light = resolveSchemePalette(colors, config, "light");
+  const rules = SCHEME_CLASSES.map(([className, property, role]) =>
+    `.${className}{${property}:var(${propertyName(role)})}`
+  ).join("");
+  return `svg{${customProperties(dark)}}` +
+    `@media (prefers-color-scheme: light){svg{${customProperties(light)}}}` +
+    rules;
+}
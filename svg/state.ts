@@ -0,0 +1,94 @@
+import { NowPlayingData, SvgConfig } from "../types.ts";
+
+/** Age after which a track is shown as "last played". */
+export const STALE_AFTER_MS = 5 * 60 * 1000;
+
+/** Message shown when nothing has been played yet. */
+export const DEFAULT_IDLE_MESSAGE = "Nothing playing right now";
+
+const TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat("en", {
+  numeric: "always",
+});
+
+export interface PlaybackState {
+  isStale: boolean;
+  isPlaying: boolean;
+  isPaused: boolean;
+  hasTrack: boolean;
+}
+
+/**
+ * Read the stale threshold from the config.
+ *
+ * @param config Visual configuration.
+ * @returns Milliseconds after the last update before a track goes stale.
+ */
+export function resolveStaleAfterMs(config: SvgConfig): number {
+  return config.staleAfterMinutes !== undefined
+    ? config.staleAfterMinutes * 60 * 1000
+    : STALE_AFTER_MS;
+}
+
+/**
+ * Derive the display state for a payload.
+ *
+ * @param data Latest now playing payload or null.
+ * @param staleAfterMs Age after which the payload counts as stale.
+ * @param now Render time.
+ * @returns Flags describing what the widget should show.
+ */
+export function resolvePlaybackState(
+  data: NowPlayingData | null,
+  staleAfterMs: number = STALE_AFTER_MS,
+  now: number = Date.now(),
+): PlaybackState {
+  const isStale = data ? now - data.updatedAt > staleAfterMs : true;
+  const isPlaying = Boolean(data && data.status === "playing" && !isStale);
+  const isPaused = Boolean(data && data.status === "paused" && !isStale);
+  const hasTrack = Boolean(data && (isPlaying || isPaused || isStale));
+  return { isStale, isPlaying, isPaused, hasTrack };
+}
+
+/**
+ * Format how long ago a timestamp was, e.g. "3 hours ago".
+ *
+ * @param timestamp Past time in milliseconds.
+ * @param now Render time.
+ * @returns Relative time in the largest whole unit, at least one minute.
+ */
+export function formatTimeAgo(
+  timestamp: number,
+  now: number = Date.now(),
+): string {
+  const elapsed = Math.max(0, now - timestamp);
+  const [unit, size] = TIME_UNITS.find(([, size]) => elapsed >= size) ??
+    TIME_UNITS[TIME_UNITS.length - 1];
+  return relativeTimeFormat.format(
+    -Math.max(1, Math.floor(elapsed / size)),
+    unit,
+  );
+}
+
+/**
+ * Build the status label for a stale track.
+ *
+ * @param data Stale payload.
+ * @param config Visual configuration.
+ * @param now Render time.
+ * @returns "Last played", with the relative time when idle is "ago".
+ */
+export function describeLastPlayed(
+  data: NowPlayingData,
+  config: SvgConfig,
+  now: number = Date.now(),
+): string {
+  return config.idle === "ago"
+    ? `Last played ${formatTimeAgo(data.updatedAt, now)}`
+    : "Last played";
+}
@@ -1,3 +1,21 @@
+import { FontMetrics } from "../types.ts";
+
+const FALLBACK_WIDTH_RATIO = 0.55;
+const WIDE_FALLBACK_WIDTH_RATIO = 1;
+const ELLIPSIS = "\u2026";
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, {
+  granularity: "grapheme",
+});
+
+// East Asian Wide and Fullwidth blocks plus emoji, which render at roughly
+// twice the width of Latin text.
+const WIDE_CHAR_PATTERN =
+  /[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{20000}-\u{3fffd}]|\p{Extended_Pictographic}/u;
+const RTL_CHAR_PATTERN =
+  /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc\u{10800}-\u{10fff}\u{1e800}-\u{1efff}]/u;
+const STRONG_CHAR_PATTERN = /\p{L}/u;
+
 /**
  * Escape special characters for XML/SVG.
  *
@@ -14,24 +32,215 @@ export function escapeXml(text: string): string {
 }
 
 /**
- * Truncate text to a fixed maximum length.
+ * Split text into user-perceived characters.
  *
  * @param text Input text.
- * @param maxLength Maximum number of characters.
+ * @returns Grapheme clusters, so emoji and combining marks stay whole.
+ */
+export function splitGraphemes(text: string): string[] {
+  return Array.from(
+    graphemeSegmenter.segment(text),
+    (segment) => segment.segment,
+  );
+}
+
+/**
+ * Check whether a grapheme renders at full width.
+ *
+ * @param grapheme Single grapheme cluster.
+ * @returns True for East Asian wide characters and emoji.
+ */
+export function isWideGrapheme(grapheme: string): boolean {
+  return WIDE_CHAR_PATTERN.test(grapheme);
+}
+
+/**
+ * Detect right-to-left text from its first strong character.
+ *
+ * @param text Input text.
+ * @returns True when the text starts with Hebrew, Arabic or another RTL script.
+ */
+export function isRtlText(text: string): boolean {
+  for (const char of text) {
+    if (RTL_CHAR_PATTERN.test(char)) return true;
+    if (STRONG_CHAR_PATTERN.test(char)) return false;
+  }
+  return false;
+}
+
+/**
+ * Truncate text to a fixed number of columns.
+ *
+ * Wide characters take two columns, matching terminal-style East Asian width.
+ *
+ * @param text Input text.
+ * @param maxLength Maximum number of columns.
  * @returns Truncated text with ellipsis when needed.
  */
 export function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-  return text.substring(0, maxLength - 3) + "...";
+  const graphemes = splitGraphemes(text);
+  const columns = (grapheme: string) => isWideGrapheme(grapheme) ? 2 : 1;
+  const total = graphemes.reduce((sum, grapheme) => sum + columns(grapheme), 0);
+  if (total <= maxLength) return text;
+  let used = 0;
+  let truncated = "";
+  for (const grapheme of graphemes) {
+    used += columns(grapheme);
+    if (used > maxLength - 1) break;
+    truncated += grapheme;
+  }
+  return truncated.trimEnd() + ELLIPSIS;
+}
+
+function graphemeWidth(
+  grapheme: string,
+  fontSize: number,
+  metrics?: FontMetrics,
+): number {
+  const codePoints = Array.from(grapheme, (char) => char.codePointAt(0) ?? 0);
+  if (metrics && metrics.advances.has(codePoints[0])) {
+    const units = codePoints.reduce(
+      (sum, codePoint) => sum + (metrics.advances.get(codePoint) ?? 0),
+      0,
+    );
+    return (units / metrics.unitsPerEm) * fontSize;
+  }
+  return fontSize *
+    (isWideGrapheme(grapheme)
+      ? WIDE_FALLBACK_WIDTH_RATIO
+      : FALLBACK_WIDTH_RATIO);
 }
 
 /**
  * Estimate text width for layout calculations.
  *
+ * Uses the font's advance widths when metrics are available and falls back
+ * to an average glyph width, doubled for wide characters, for graphemes the
+ * font does not cover.
+ *
  * @param text Input text.
  * @param fontSize Font size in pixels.
+ * @param metrics Advance widths of the font the text is rendered in.
  * @returns Estimated width in pixels.
  */
-export function estimateTextWidth(text: string, fontSize: number): number {
-  return text.length * (fontSize * 0.55);
+export function estimateTextWidth(
+  text: string,
+  fontSize: number,
+  metrics?: FontMetrics,
+): number {
+  return splitGraphemes(text).reduce(
+    (width, grapheme) => width + graphemeWidth(grapheme, fontSize, metrics),
+    0,
+  );
+}
+
+function clipToWidth(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  metrics?: FontMetrics,
+): string {
+  let width = 0;
+  let clipped = "";
+  for (const grapheme of splitGraphemes(text)) {
+    width += graphemeWidth(grapheme, fontSize, metrics);
+    if (width > maxWidth) break;
+    clipped += grapheme;
+  }
+  return clipped.trimEnd();
+}
+
+/**
+ * Truncate text to fit a width in pixels.
+ *
+ * @param text Input text.
+ * @param maxWidth Available width in pixels.
+ * @param fontSize Font size in pixels.
+ * @param metrics Advance widths of the font the text is rendered in.
+ * @returns Text with ellipsis when it had to be shortened.
+ */
+export function truncateToWidth(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  metrics?: FontMetrics,
+): string {
+  if (estimateTextWidth(text, fontSize, metrics) <= maxWidth) return text;
+  const available = maxWidth - estimateTextWidth(ELLIPSIS, fontSize, metrics);
+  return clipToWidth(text, available, fontSize, metrics) + ELLIPSIS;
+}
+
+/**
+ * Wrap text onto lines at word boundaries.
+ *
+ * Words wider than a line are split between grapheme clusters. The last line
+ * is truncated with an ellipsis when the text does not fit in the allowed
+ * number of lines.
+ *
+ * @param text Input text.
+ * @param maxWidth Available line width in pixels.
+ * @param maxLines Maximum number of lines.
+ * @param fontSize Font size in pixels.
+ * @param metrics Advance widths of the font the text is rendered in.
+ * @returns Lines of text, empty when the input is blank.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+  fontSize: number,
+  metrics?: FontMetrics,
+): string[] {
+  const fits = (line: string) =>
+    estimateTextWidth(line, fontSize, metrics) <= maxWidth;
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = "";
+    for (const grapheme of splitGraphemes(word)) {
+      if (current && !fits(current + grapheme)) {
+        lines.push(current);
+        current = "";
+      }
+      current += grapheme;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const available = maxWidth - estimateTextWidth(ELLIPSIS, fontSize, metrics);
+  kept[maxLines - 1] = clipToWidth(
+    kept[maxLines - 1],
+    available,
+    fontSize,
+    metrics,
+  ) + ELLIPSIS;
+  return kept;
+}
+
+/**
+ * Collect the visible text of an SVG document.
+ *
+ * @param svg SVG markup.
+ * @returns Unescaped contents of every `<text>` element, joined.
+ */
+export function extractSvgText(svg: string): string {
+  return Array.from(
+    svg.matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/g),
+    (match) => match[1].replace(/<[^>]+>/g, ""),
+  ).join("")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
 }
@@ -0,0 +1,132 @@
+import {
+  ColorPalette,
+  defaultSvgConfig,
+  StatsItem,
+  SvgConfig,
+} from "../types.ts";
+import { mixColors } from "./colors.ts";
+import { generateFontFaceCss, resolveFontStacks } from "./fonts.ts";
+import { escapeXml, truncateToWidth } from "./text.ts";
+import { generateWaveformLayer, hashString } from "./waves.ts";
+
+function formatListeningTime(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * Build an SVG card listing the most played artists.
+ *
+ * @param artists Artists ordered by play count.
+ * @param rangeLabel Human readable window, e.g. "LAST 7 DAYS".
+ * @param colors Palette from the current track, or null for theme defaults.
+ * @param config Visual configuration overrides.
+ * @returns SVG markup as a string.
+ */
+export function generateTopArtistsSvg(
+  artists: StatsItem[],
+  rangeLabel: string,
+  colors: ColorPalette | null,
+  config: SvgConfig = defaultSvgConfig,
+): string {
+  const width = config.width;
+  const height = config.height;
+  const padding = 26;
+  const dominantColor = colors?.dominant || config.cardBorder;
+  const accentColor = colors?.accent || "#22c55e";
+  const baseDark = mixColors(dominantColor, "#050505", 0.82);
+  const midDark = mixColors(dominantColor, "#0d0f12", 0.7);
+  const highlight = colors?.highlight ||
+    mixColors(accentColor, "#ffffff", 0.45);
+  const fonts = resolveFontStacks(config);
+  const fontFaces = generateFontFaceCss(config);
+  const styleBlock = fontFaces ? `<style>${fontFaces}</style>` : "";
+
+  const headerY = padding + 10;
+  const rowsTop = headerY + 14;
+  const rowHeight = artists.length > 0
+    ? (height - rowsTop - padding / 2) / artists.length
+    : 0;
+  const maxPlays = Math.max(1, ...artists.map((artist) => artist.plays));
+  const barMaxWidth = width - padding * 2 - 190;
+  const seed = hashString(artists[0]?.name || "tauon");
+
+  const rows = artists.map((artist, index) => {
+    const baseline = rowsTop + rowHeight * index + rowHeight * 0.62;
+    const barWidth = Math.max(2, (artist.plays / maxPlays) * barMaxWidth);
+    const plays = `${artist.plays} ${artist.plays === 1 ? "play" : "plays"}`;
+    return `
+    <text x="${padding}" y="${baseline}" fill="${config.textMuted}" font-size="13" font-family="${fonts.body}">${
+      index + 1
+    }</text>
+    <text x="${
+      padding + 24
+    }" y="${baseline}" fill="${config.textPrimary}" font-size="15" font-family="${fonts.title}">${
+      escapeXml(
+        truncateToWidth(artist.name, barMaxWidth, 15, config.fontTitleMetrics),
+      )
+    }</text>
+    <rect x="${padding + 24}" y="${
+      baseline + 5
+    }" width="${barWidth}" height="3" rx="1.5" fill="${highlight}" opacity="0.6" />
+    <text x="${
+      width - padding
+    }" y="${baseline}" fill="${config.textSecondary}" font-size="12" text-anchor="end" font-family="${fonts.body}">${plays} · ${
+      formatListeningTime(artist.listenedMs)
+    }</text>`;
+  }).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    ${styleBlock}
+    <linearGradient id="cardGradient" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0%" stop-color="${baseDark}" />
+      <stop offset="60%" stop-color="${midDark}" />
+      <stop offset="100%" stop-color="${baseDark}" />
+    </linearGradient>
+    <clipPath id="cardClip" clipPathUnits="userSpaceOnUse">
+      <rect x="2" y="2" width="${width - 4}" height="${height - 4}" rx="${
+    config.borderRadius - 2
+  }" />
+    </clipPath>
+    <filter id="textGlow" x="-50%" y="-50%" width="200%" height="200%">
+      <feDropShadow dx="0" dy="0" stdDeviation="4" flood-color="${highlight}" flood-opacity="0.6" />
+    </filter>
+  </defs>
+
+  <rect width="${width}" height="${height}" rx="${config.borderRadius}" fill="${midDark}" />
+  <rect x="2" y="2" width="${width - 4}" height="${height - 4}" rx="${
+    config.borderRadius - 2
+  }" fill="url(#cardGradient)" />
+
+  <g opacity="0.25" clip-path="url(#cardClip)">
+    ${
+    generateWaveformLayer(
+      highlight,
+      0.3,
+      2,
+      width - 2,
+      height - 2,
+      height * 0.6,
+      seed * 0.03,
+      10,
+    )
+  }
+  </g>
+
+  <g font-family="${fonts.body}">
+    <text x="${padding}" y="${headerY}" fill="${highlight}" font-size="12" font-weight="700" letter-spacing="0.12em" filter="url(#textGlow)">TOP ARTISTS · ${
+    escapeXml(rangeLabel)
+  }</text>
+    ${
+    artists.length > 0 ? rows : `
+    <text x="${padding}" y="${
+      height / 2 + 8
+    }" fill="${config.textMuted}" font-size="14">No listening data yet</text>`
+  }
+  </g>
+</svg>`;
+}
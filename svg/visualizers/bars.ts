@@ -0,0 +1,52 @@
+import { round } from "../math.ts";
+import { seededRandom } from "../waves.ts";
+import { Visualizer } from "./types.ts";
+
+const BAR_WIDTH = 6;
+const BAR_GAP = 4;
+const LEVELS = 3;
+
+/** Equalizer bars that bounce between seeded levels while playing. */
+export const barsVisualizer: Visualizer = {
+  description: "equalizer bars in the album colors",
+  render({ width, height, layout, seed, isPlaying }) {
+    const barWidth = BAR_WIDTH * layout.scale;
+    const gap = BAR_GAP * layout.scale;
+    const count = Math.max(1, Math.floor((width - 4 + gap) / (barWidth + gap)));
+    const startX = (width - count * (barWidth + gap) + gap) / 2;
+    const baseY = height - 2;
+
+    const bars = Array.from({ length: count }, (_, index) => {
+      const x = round(startX + index * (barWidth + gap));
+      const levels = Array.from(
+        { length: LEVELS },
+        (_, step) =>
+          round(
+            layout.waveHeight *
+              (0.15 + 0.7 * seededRandom(index + step * 97, seed * 0.03)),
+          ),
+      );
+      if (!isPlaying) {
+        const idle = round(levels[0] * 0.35);
+        return `<rect x="${x}" y="${
+          round(baseY - idle)
+        }" width="${barWidth}" height="${idle}" rx="${barWidth / 2}" />`;
+      }
+      const heights = [...levels, levels[0]];
+      const duration = (0.9 + seededRandom(index, seed * 0.05 + 3.3) * 0.9)
+        .toFixed(2);
+      return `<rect x="${x}" y="${
+        round(baseY - levels[0])
+      }" width="${barWidth}" height="${levels[0]}" rx="${barWidth / 2}">
+      <animate attributeName="height" values="${
+        heights.join(";")
+      }" dur="${duration}s" repeatCount="indefinite" />
+      <animate attributeName="y" values="${
+        heights.map((level) => round(baseY - level)).join(";")
+      }" dur="${duration}s" repeatCount="indefinite" />
+    </rect>`;
+    }).join("");
+
+    return `<g fill="url(#barsFade)" opacity="0.45" clip-path="url(#cardClip)">${bars}</g>`;
+  },
+};
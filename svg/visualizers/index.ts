@@ -0,0 +1,45 @@
+import { VisualizerStyle } from "../../types.ts";
+import { barsVisualizer } from "./bars.ts";
+import { pulseVisualizer } from "./pulse.ts";
+import { Visualizer } from "./types.ts";
+import { vinylVisualizer } from "./vinyl.ts";
+import { waveformVisualizer } from "./waveform.ts";
+
+export type { Visualizer, VisualizerContext } from "./types.ts";
+
+const noneVisualizer: Visualizer = {
+  description: "",
+  render: () => "",
+};
+
+const VISUALIZERS: Record<VisualizerStyle, Visualizer> = {
+  waveform: waveformVisualizer,
+  bars: barsVisualizer,
+  vinyl: vinylVisualizer,
+  pulse: pulseVisualizer,
+  none: noneVisualizer,
+};
+
+export const VISUALIZER_STYLES = Object.keys(VISUALIZERS) as VisualizerStyle[];
+
+/**
+ * Check whether a value names a visualizer style.
+ *
+ * @param value Candidate style, e.g. from a query parameter.
+ * @returns True when the style exists.
+ */
+export function isVisualizerStyle(
+  value: string | null | undefined,
+): value is VisualizerStyle {
+  return VISUALIZER_STYLES.includes(value as VisualizerStyle);
+}
+
+/**
+ * Look up the visualizer for a style.
+ *
+ * @param style Configured style; defaults to the waveform.
+ * @returns Visualizer implementation.
+ */
+export function resolveVisualizer(style?: VisualizerStyle): Visualizer {
+  return VISUALIZERS[style ?? "waveform"] ?? waveformVisualizer;
+}
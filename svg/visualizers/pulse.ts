@@ -0,0 +1,49 @@
+import { seededRandom } from "../waves.ts";
+import { Visualizer } from "./types.ts";
+
+const RING_COUNT = 3;
+
+/** Rings that ripple outward from the album art while playing. */
+export const pulseVisualizer: Visualizer = {
+  description: "rings pulsing from the album art",
+  render({ layout, palette, borderRadius, seed, isPlaying }) {
+    const { albumX, albumY, albumSize, scale } = layout;
+    if (albumSize <= 0) return "";
+    const spread = Math.round(
+      albumSize * (0.22 + 0.14 * seededRandom(1, seed * 0.03)),
+    );
+    const strokeWidth = Math.max(1, Math.round(2 * scale));
+    const ring = (offset: number, opacity: number, animation = "") =>
+      `<rect x="${albumX - offset}" y="${albumY - offset}" width="${
+        albumSize + offset * 2
+      }" height="${albumSize + offset * 2}" rx="${
+        borderRadius + offset
+      }" opacity="${opacity}">${animation}</rect>`;
+
+    let rings: string;
+    if (isPlaying) {
+      const duration = 2.4 + seededRandom(2, seed * 0.05 + 1.7) * 1.2;
+      const timing = `dur="${duration.toFixed(2)}s" repeatCount="indefinite"`;
+      // Negative begin offsets stagger the rings around the same cycle.
+      rings = Array.from({ length: RING_COUNT }, (_, index) => {
+        const begin = `begin="-${(duration * index / RING_COUNT).toFixed(2)}s"`;
+        const animate = (name: string, from: number, to: number) =>
+          `<animate attributeName="${name}" values="${from};${to}" ${timing} ${begin} />`;
+        return ring(
+          0,
+          0,
+          animate("x", albumX, albumX - spread) +
+            animate("y", albumY, albumY - spread) +
+            animate("width", albumSize, albumSize + spread * 2) +
+            animate("height", albumSize, albumSize + spread * 2) +
+            animate("rx", borderRadius, borderRadius + spread) +
+            animate("opacity", 0.6, 0),
+        );
+      }).join("");
+    } else {
+      rings = ring(Math.round(spread * 0.3), 0.3);
+    }
+
+    return `<g fill="none" stroke="${palette.highlight}" class="np-stroke-highlight" stroke-width="${strokeWidth}" clip-path="url(#cardClip)">${rings}</g>`;
+  },
+};
@@ -0,0 +1,26 @@
+import { CardLayout } from "../layout.ts";
+import { SchemePalette } from "../scheme.ts";
+
+/** Everything a visualizer needs to draw the card background. */
+export interface VisualizerContext {
+  width: number;
+  height: number;
+  layout: CardLayout;
+  palette: SchemePalette;
+  borderRadius: number;
+  // Stable per-track seed from hashString(title).
+  seed: number;
+  isPlaying: boolean;
+}
+
+export interface Visualizer {
+  // Noun phrase for the card's accessible description, empty to omit.
+  description: string;
+  /**
+   * Draw the layer between the card background and the text.
+   *
+   * Markup may reference the card's `barsFade` gradient and `cardClip` clip
+   * path. Looping animations are frozen for reduced-motion viewers.
+   */
+  render(context: VisualizerContext): string;
+}
@@ -0,0 +1,62 @@
+import { round } from "../math.ts";
+import { seededRandom } from "../waves.ts";
+import { Visualizer } from "./types.ts";
+
+const GROOVES = 6;
+// One turn at 33 1/3 rpm.
+const REVOLUTION_SECONDS = 1.8;
+
+/** A record sliding out from behind the album art, spinning while playing. */
+export const vinylVisualizer: Visualizer = {
+  description: "a vinyl record behind the album art",
+  render({ width, layout, palette, seed, isPlaying }) {
+    const { albumX, albumY, albumSize, isVertical, textAreaLeft, scale } =
+      layout;
+    if (albumSize <= 0) return "";
+    const radius = round(albumSize * 0.48);
+    const artRight = albumX + albumSize;
+
+    // Slide toward the text, stopping short of it, or to the right of
+    // portrait art where there is no text beside it.
+    const slideRight = isVertical || textAreaLeft >= artRight;
+    const room = isVertical
+      ? width - artRight
+      : slideRight
+      ? textAreaLeft - artRight
+      : albumX - layout.textAreaRight;
+    const shift = albumSize / 2 + Math.max(0, room) * 0.7 - radius;
+    const cx = round(albumX + albumSize / 2 + (slideRight ? shift : -shift));
+    const cy = round(albumY + albumSize / 2);
+
+    const grooves = Array.from({ length: GROOVES }, (_, index) => {
+      const step = (index + seededRandom(index, seed * 0.03) * 0.6) / GROOVES;
+      return `<circle cx="${cx}" cy="${cy}" r="${
+        round(radius * (0.42 + step * 0.52))
+      }" />`;
+    }).join("");
+    const labelRadius = round(radius * 0.34);
+    const startAngle = Math.round(seededRandom(3, seed * 0.05) * 360);
+    const spin = isPlaying
+      ? `<animateTransform attributeName="transform" type="rotate" from="0 ${cx} ${cy}" to="360 ${cx} ${cy}" dur="${REVOLUTION_SECONDS}s" repeatCount="indefinite" />`
+      : "";
+
+    return `<g>
+    <circle cx="${cx}" cy="${cy}" r="${radius}" fill="${palette.mid}" class="np-fill-mid np-stroke-border" stroke="${palette.border}" stroke-opacity="0.3" />
+    <g fill="none" stroke="${palette.highlight}" class="np-stroke-highlight" stroke-opacity="0.14" stroke-width="${
+      round(0.8 * scale)
+    }">${grooves}</g>
+    <g transform="rotate(${startAngle} ${cx} ${cy})">
+      <g>
+        <circle cx="${cx}" cy="${cy}" r="${labelRadius}" fill="${palette.accent}" />
+        <circle cx="${round(cx + labelRadius * 0.6)}" cy="${cy}" r="${
+      round(labelRadius * 0.14)
+    }" fill="${palette.base}" class="np-fill-base" opacity="0.6" />
+        ${spin}
+      </g>
+    </g>
+    <circle cx="${cx}" cy="${cy}" r="${
+      round(radius * 0.035)
+    }" fill="${palette.base}" class="np-fill-base" />
+  </g>`;
+  },
+};
@@ -0,0 +1,52 @@
+import { generateWaveformLayer } from "../waves.ts";
+import { Visualizer } from "./types.ts";
+
+/** Layered seeded waves along the bottom edge of the card. */
+export const waveformVisualizer: Visualizer = {
+  description: "a waveform in the album colors",
+  render({ width, height, layout, palette, seed, isPlaying }) {
+    const startX = 2;
+    const endX = width - 2;
+    const baseY = height - 2;
+    const { waveHeight } = layout;
+    const backgroundWaves = [
+      generateWaveformLayer(
+        palette.highlight,
+        0.28,
+        startX,
+        endX,
+        baseY,
+        waveHeight,
+        seed * 0.03,
+        8,
+      ),
+      generateWaveformLayer(
+        palette.accent,
+        0.18,
+        startX,
+        endX,
+        baseY,
+        waveHeight * 0.7,
+        seed * 0.05 + 4.1,
+        12,
+      ),
+    ].join("");
+    const playingWave = isPlaying
+      ? generateWaveformLayer(
+        palette.highlight,
+        0.65,
+        startX,
+        endX,
+        baseY,
+        waveHeight * 0.85,
+        seed * 0.08 + 8.2,
+        5,
+      )
+      : "";
+    return `<g fill="url(#barsFade)" opacity="0.4" clip-path="url(#cardClip)">${backgroundWaves}</g>${
+      playingWave
+        ? `<g fill="url(#barsFade)" opacity="0.45" clip-path="url(#cardClip)">${playingWave}</g>`
+        : ""
+    }`;
+  },
+};
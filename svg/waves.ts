@@ -1,4 +1,11 @@
-function seededRandom(index: number, seed: number): number {
+/**
+ * Deterministic pseudo-random value for an index and seed.
+ *
+ * @param index Position in the sequence.
+ * @param seed Sequence seed.
+ * @returns Value in the range [0, 1).
+ */
+export function seededRandom(index: number, seed: number): number {
   const value = Math.sin(index * 12.9898 + seed) * 43758.5453;
   return value - Math.floor(value);
 }
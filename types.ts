@@ -32,10 +32,20 @@ export interface TauonStatus {
   album_id: number;
 }
 
+export interface PaletteSwatch {
+  color: string; // Hex color
+  population: number; // Share of the sampled pixels, 0-1
+}
+
 export interface ColorPalette {
   dominant: string; // Hex color
   accent: string; // Hex color for equalizer/border
   highlight: string; // Bright highlight color
+  vibrant?: string; // Saturated mid-lightness swatch
+  muted?: string; // Desaturated mid-lightness swatch
+  light?: string; // Light swatch
+  dark?: string; // Dark swatch
+  swatches?: PaletteSwatch[]; // Ranked by population, most common first
 }
 
 export interface NowPlayingData {
@@ -48,11 +58,46 @@ export interface NowPlayingData {
   progress: number;
   status: "playing" | "paused";
   artBase64: string | null;
+  artHash?: string | null; // SHA-256 of art stored separately on the server
+  artMimeType?: string | null; // Image type of the art, JPEG when missing
   colors: ColorPalette | null;
   updatedAt: number;
 }
 
+export interface HistoryEntry {
+  title: string;
+  artist: string;
+  album: string;
+  albumArtist: string;
+  duration: number;
+  playedAt: number; // Server time the track was first seen
+  updatedAt: number; // Poller time of the latest update for this play
+}
+
+export interface StatsItem {
+  name: string;
+  artist?: string; // Set for albums and tracks
+  plays: number;
+  listenedMs: number;
+}
+
+export interface FontMetrics {
+  unitsPerEm: number;
+  advances: Map<number, number>; // Advance width in font units by code point
+}
+
+export interface SchemeColors {
+  cardBackground: string;
+  cardBorder: string;
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+}
+
+export type VisualizerStyle = "waveform" | "bars" | "vinyl" | "pulse" | "none";
+
 export interface SvgConfig {
+  layout?: "card" | "badge";
   width: number;
   height: number;
   cardBackground: string;
@@ -60,14 +105,23 @@ export interface SvgConfig {
   textPrimary: string;
   textSecondary: string;
   textMuted: string;
+  light?: Partial<SchemeColors>; // Colors used when the viewer prefers light
+  scheme?: "light" | "dark" | "auto";
   albumSize: number;
   borderRadius: number;
-  albumPosition: "left" | "right";
+  albumPosition: "left" | "right" | "top";
   textAlign: "left" | "center" | "right";
+  visualizer?: VisualizerStyle; // Background animation behind the card
+  staleAfterMinutes?: number; // Minutes without updates before "last played"
+  idle?: "last" | "dim" | "ago" | "hide"; // How a stale track is shown
+  idleMessage?: string; // Shown when nothing has been played
+  contrast?: "aa" | "strict" | "off"; // Text contrast against the card
   showStatus: boolean;
   showTitle: boolean;
   showArtist: boolean;
   showAlbum: boolean;
+  showProgress: boolean;
+  showThumbnail?: boolean; // Album thumbnail in the badge layout
   fontTitleFamily: string;
   fontBodyFamily: string;
   fontTitleFile: string;
@@ -77,8 +131,22 @@ export interface SvgConfig {
   fontBodyDataUrl?: string;
   fontTitleFormat?: string;
   fontBodyFormat?: string;
+  fontTitleMetrics?: FontMetrics;
+  fontBodyMetrics?: FontMetrics;
 }
 
+// Largest album art the server stores. Deno KV rejects values over 64 KiB;
+// leave room for the record fields.
+export const MAX_ART_BYTES = 63 * 1024;
+
+export const defaultLightColors: SchemeColors = {
+  cardBackground: "#f8fafc",
+  cardBorder: "#e2e8f0",
+  textPrimary: "#0f172a",
+  textSecondary: "#334155",
+  textMuted: "#64748b",
+};
+
 export const defaultSvgConfig: SvgConfig = {
   width: 800,
   height: 200,
@@ -87,6 +155,7 @@ export const defaultSvgConfig: SvgConfig = {
   textPrimary: "#fafafa",
   textSecondary: "#cbd5e1",
   textMuted: "#94a3b8",
+  light: defaultLightColors,
   albumSize: 150,
   borderRadius: 16,
   albumPosition: "left",
@@ -95,6 +164,7 @@ export const defaultSvgConfig: SvgConfig = {
   showTitle: true,
   showArtist: true,
   showAlbum: true,
+  showProgress: false,
   fontTitleFamily: "DotGothic16",
   fontBodyFamily: "Space Mono",
   fontTitleFile: "DotGothic16-Regular.ttf",